@@ -7,9 +7,20 @@ CREATE TABLE IF NOT EXISTS entries (
   upload_time DATETIME DEFAULT CURRENT_TIMESTAMP,
   expiration_time TEXT,
   note TEXT,
-  guest_link_id TEXT
+  guest_link_id TEXT,
+  created_by TEXT,
+  password_hash TEXT,
+  max_downloads INTEGER,
+  served_downloads INTEGER NOT NULL DEFAULT 0,
+  last_served_at TEXT,
+  alias TEXT,
+  sha256 TEXT,
+  object_key TEXT,
+  relative_path TEXT
 );
 
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entries_alias ON entries(alias);
+
 CREATE TABLE IF NOT EXISTS guest_links (
   id TEXT PRIMARY KEY,
   label TEXT,
@@ -18,7 +29,8 @@ CREATE TABLE IF NOT EXISTS guest_links (
   max_file_uploads INTEGER,
   url_expires TEXT,
   created_time DATETIME DEFAULT CURRENT_TIMESTAMP,
-  upload_count INTEGER DEFAULT 0
+  upload_count INTEGER DEFAULT 0,
+  created_by TEXT
 );
 
 CREATE TABLE IF NOT EXISTS settings (
@@ -42,6 +54,20 @@ CREATE TABLE IF NOT EXISTS multipart_uploads (
   size INTEGER NOT NULL DEFAULT 0,
   expiration_time TEXT,
   note TEXT,
+  created_by TEXT,
+  password_hash TEXT,
+  max_downloads INTEGER,
+  alias TEXT,
+  expected_sha256 TEXT,
+  tus_offset INTEGER,
+  tus_parts INTEGER NOT NULL DEFAULT 0,
+  tus_tail_size INTEGER NOT NULL DEFAULT 0,
+  expires_at TEXT,
+  fingerprint TEXT,
+  chunk_size INTEGER,
+  guest_link_id TEXT,
+  relative_path TEXT,
+  server_streamed INTEGER NOT NULL DEFAULT 0,
   created_time DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -51,3 +77,68 @@ CREATE TABLE IF NOT EXISTS multipart_upload_parts (
   etag TEXT NOT NULL,
   PRIMARY KEY(upload_id, part_number)
 );
+
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  username TEXT NOT NULL UNIQUE,
+  password_hash TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'viewer',
+  created_time DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT,
+  username TEXT NOT NULL,
+  created_time DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at TEXT NOT NULL,
+  last_seen_at TEXT,
+  ip TEXT,
+  user_agent TEXT
+);
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT NOT NULL,
+  created_by TEXT,
+  created_time DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS totp_credentials (
+  owner_key TEXT PRIMARY KEY,
+  secret TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 0,
+  recovery_codes TEXT,
+  last_counter INTEGER,
+  created_time DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS auth_failures (
+  kind TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failure_at TEXT NOT NULL,
+  locked_until TEXT,
+  PRIMARY KEY (kind, subject)
+);
+
+CREATE TABLE IF NOT EXISTS blobs (
+  hash TEXT PRIMARY KEY,
+  object_key TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  ref_count INTEGER NOT NULL DEFAULT 0,
+  created_time DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS signed_url_uses (
+  nonce TEXT PRIMARY KEY,
+  entry_id TEXT NOT NULL,
+  max_uses INTEGER NOT NULL,
+  uses INTEGER NOT NULL DEFAULT 0,
+  expires_at TEXT NOT NULL,
+  created_by TEXT,
+  created_time DATETIME DEFAULT CURRENT_TIMESTAMP
+);
@@ -3,6 +3,7 @@ export interface Env {
   BUCKET: R2Bucket;
   CLIPBOARD: KVNamespace;
   PS_SHARED_SECRET: string;
+  PS_SESSION_SECRET?: string;
 }
 
 type EntryRow = {
@@ -14,6 +15,37 @@ type EntryRow = {
   expiration_time: string | null;
   note: string | null;
   guest_link_id: string | null;
+  created_by: string | null;
+  password_hash: string | null;
+  max_downloads: number | null;
+  served_downloads: number;
+  alias: string | null;
+  sha256: string | null;
+  object_key: string | null;
+  relative_path: string | null;
+};
+
+type ByteRange = {
+  start: number;
+  end: number;
+};
+
+type IdKind = "entry" | "guest_link";
+
+type ZipSource = {
+  name: string;
+  size: number;
+  modifiedMs: number | null;
+  open: () => Promise<ReadableStream<Uint8Array> | null>;
+};
+
+type ZipField = [2 | 4 | 8, number] | Uint8Array;
+
+type UploadOptions = {
+  note: string | null;
+  expiration: string | null;
+  passwordHash: string | null;
+  maxDownloads: number | null;
 };
 
 type GuestLinkRow = {
@@ -25,14 +57,127 @@ type GuestLinkRow = {
   max_file_uploads: number | null;
   url_expires: string | null;
   upload_count: number | null;
+  created_by: string | null;
+};
+
+type UserRole = "viewer" | "uploader" | "admin";
+
+type UserRow = {
+  id: string;
+  username: string;
+  role: UserRole;
+  created_time: string | null;
+};
+
+type AuthPrincipal = {
+  userId: string | null;
+  username: string;
+  role: UserRole;
+  sessionId: string | null;
+  // Set for API token callers; null means the caller is not scope-limited.
+  scopes: ApiTokenScope[] | null;
+};
+
+type TotpCredentialRow = {
+  owner_key: string;
+  secret: string;
+  enabled: number;
+  recovery_codes: string | null;
+  last_counter: number | null;
+};
+
+type AuthFailureKind = "ip" | "target";
+
+type AuthFailureRow = {
+  kind: AuthFailureKind;
+  subject: string;
+  failures: number;
+  last_failure_at: string;
+  locked_until: string | null;
+};
+
+type ApiTokenScope = "entries:read" | "entries:write" | "guest-links:manage" | "settings";
+
+type ApiTokenRow = {
+  id: string;
+  name: string;
+  scopes: string;
+  created_by: string | null;
+  created_time: string | null;
+  last_used_at: string | null;
+};
+
+type SessionRow = {
+  id: string;
+  user_id: string | null;
+  username: string;
+  created_time: string | null;
+  expires_at: string;
+  last_seen_at: string | null;
+  ip: string | null;
+  user_agent: string | null;
 };
 
 const ID_CHARS = "abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789";
 const ID_LENGTH = 10;
+const ID_MIN_LENGTH = 8;
+const ID_MAX_LENGTH = 32;
+const ID_GENERATION_ATTEMPTS = 5;
+const ID_LENGTH_SETTINGS: Record<IdKind, string> = {
+  entry: "entry_id_length",
+  guest_link: "guest_link_id_length",
+};
 const CLIPBOARD_KEY_PREFIX = "clipboard:";
 export const MAX_CLIPBOARD_CHARS = 1_000_000;
 const MULTIPART_CHUNK_SIZE_BYTES = 8 * 1024 * 1024;
 const MULTIPART_UPLOAD_THRESHOLD_BYTES = 100 * 1024 * 1024;
+// multipart/form-data bodies on POST /api/entry are parsed in memory, so they stay below the multipart threshold.
+const FORM_UPLOAD_MAX_BYTES = MULTIPART_UPLOAD_THRESHOLD_BYTES;
+const TUS_VERSION = "1.0.0";
+const TUS_EXTENSIONS = "creation,termination,expiration";
+const TUS_UPLOAD_TTL_SECONDS = 7 * 24 * 3600;
+// R2 multipart uploads are capped at 10,000 parts, and tus parts are always full chunks.
+const TUS_MAX_SIZE = MULTIPART_CHUNK_SIZE_BYTES * 10_000;
+const TUS_TAIL_PREFIX = "tus-tail/";
+const DEFAULT_STALE_UPLOAD_HOURS = 24;
+const MAX_STALE_UPLOAD_HOURS = 720;
+// Ordered from least to most privileged; a role satisfies every role before it.
+const USER_ROLES: UserRole[] = ["viewer", "uploader", "admin"];
+const BOOTSTRAP_ADMIN_USERNAME = "admin";
+const PASSWORD_HASH_ITERATIONS = 100_000;
+const PASSWORD_HASH_SCHEME = "pbkdf2-sha256";
+const SESSION_COOKIE_NAME = "ps_session";
+const SESSION_TTL_SECONDS = 7 * 24 * 3600;
+const API_TOKEN_PREFIX = "pst_";
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_ISSUER = "PicoShare";
+const TOTP_HEADER = "X-PicoShare-OTP";
+const BOOTSTRAP_TOTP_OWNER = "bootstrap";
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const AUTH_LOCKOUT_IP_THRESHOLD = 5;
+// Higher than the per-IP threshold so one client cannot easily lock others out of an account.
+const AUTH_LOCKOUT_TARGET_THRESHOLD = 20;
+const AUTH_LOCKOUT_BASE_SECONDS = 30;
+const AUTH_LOCKOUT_MAX_SECONDS = 24 * 3600;
+const AUTH_FAILURE_WINDOW_SECONDS = 24 * 3600;
+const ENTRY_UNLOCK_COOKIE_PREFIX = "ps_unlock_";
+const ENTRY_UNLOCK_TTL_SECONDS = 15 * 60;
+const SIGNED_URL_DEFAULT_HOURS = 24;
+const SIGNED_URL_MAX_HOURS = 24 * 365;
+const MAX_BYTE_RANGES = 16;
+const MAX_DOWNLOADS_LIMIT = 1_000_000;
+const MAX_ZIP_ENTRIES = 200;
+// Sizes and offsets at or above this don't fit a classic ZIP field and need ZIP64.
+const ZIP64_LIMIT = 0xffffffff;
+// Bit 3: CRC and sizes follow the data in a descriptor; bit 11: names are UTF-8.
+const ZIP_FLAGS = 0x0808;
+// How long an entry that used up its downloads may keep streaming before cleanup reaps it.
+const EXHAUSTED_ENTRY_GRACE_SECONDS = 3600;
+const LINK_PREVIEW_BOT_PATTERN =
+  /slackbot|slack-imgproxy|telegrambot|twitterbot|facebookexternalhit|facebookcatalog|discordbot|whatsapp|linkedinbot|skypeuripreview|skype-uripreview|iframely|embedly|redditbot|mastodon|bitlybot|pinterestbot|vkshare|googlebot|bingbot|applebot|yandexbot|microsoftpreview|teamsbot/i;
+const API_TOKEN_SCOPES: ApiTokenScope[] = ["entries:read", "entries:write", "guest-links:manage", "settings"];
 const RESERVED_CLIPBOARD_SLUGS = new Set([
   "api",
   "guest",
@@ -58,6 +203,23 @@ type ClipboardSummary = {
   hasPassword: boolean;
 };
 
+// What a finished upload needs to become an entries row, whichever way the bytes arrived.
+type UploadedEntry = Pick<
+  MultipartUploadRow,
+  | "entry_id"
+  | "filename"
+  | "content_type"
+  | "size"
+  | "expiration_time"
+  | "note"
+  | "created_by"
+  | "guest_link_id"
+  | "password_hash"
+  | "max_downloads"
+  | "alias"
+  | "relative_path"
+>;
+
 type MultipartUploadRow = {
   upload_id: string;
   entry_id: string;
@@ -66,21 +228,120 @@ type MultipartUploadRow = {
   size: number;
   expiration_time: string | null;
   note: string | null;
+  created_by: string | null;
+  password_hash: string | null;
+  max_downloads: number | null;
+  alias: string | null;
+  expected_sha256: string | null;
+  // tus uploads only: bytes received so far (null marks a plain multipart upload), full parts written,
+  // bytes parked in the tail object, and when the unfinished upload may be discarded.
+  tus_offset: number | null;
+  tus_parts: number;
+  tus_tail_size: number;
+  expires_at: string | null;
+  // Lets a browser match a re-selected file to this upload after a reload; null when the client sent none.
+  fingerprint: string | null;
+  chunk_size: number | null;
+  guest_link_id: string | null;
+  // Where the file sat inside a folder upload, e.g. "photos/2024/a.jpg".
+  relative_path: string | null;
+  // 1 while a single request streams the body in (streamMultipartEntry); no client can add parts or resume it.
+  server_streamed: number;
 };
 
-export function generateID(): string {
+// Rejection sampling keeps every character equally likely; a plain modulo would favour the first few.
+export function generateID(length = ID_LENGTH): string {
+  const limit = 256 - (256 % ID_CHARS.length);
   let result = "";
-  for (let i = 0; i < ID_LENGTH; i += 1) {
-    result += ID_CHARS.charAt(Math.floor(Math.random() * ID_CHARS.length));
+  while (result.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length * 2))) {
+      if (byte >= limit) continue;
+      result += ID_CHARS[byte % ID_CHARS.length];
+      if (result.length === length) break;
+    }
   }
   return result;
 }
 
+// Upload size limit in bytes; 0 means unlimited.
+export function parseUploadLimit(input: unknown): number | null {
+  if (input == null || input === "") return null;
+  const n = Number(input);
+  if (!Number.isSafeInteger(n) || n < 0) return null;
+  return n;
+}
+
+async function maxUploadBytes(env: Env): Promise<number> {
+  return parseUploadLimit(await getSetting(env, "max_upload_bytes")) ?? 0;
+}
+
+export function parseStaleUploadHours(input: unknown): number | null {
+  if (input == null || input === "") return null;
+  const n = Number(input);
+  if (!Number.isInteger(n) || n < 1 || n > MAX_STALE_UPLOAD_HOURS) return null;
+  return n;
+}
+
+async function staleUploadHours(env: Env): Promise<number> {
+  return parseStaleUploadHours(await getSetting(env, "stale_upload_hours")) ?? DEFAULT_STALE_UPLOAD_HOURS;
+}
+
+// multipart_uploads.created_time is a SQLite CURRENT_TIMESTAMP ("YYYY-MM-DD HH:MM:SS", UTC).
+function staleUploadCutoff(nowIso: string, maxAgeHours: number): string {
+  return new Date(new Date(nowIso).getTime() - maxAgeHours * 3600 * 1000).toISOString().slice(0, 19).replace("T", " ");
+}
+
+export function parseIdLength(input: unknown): number | null {
+  if (input == null || input === "") return null;
+  const n = Number(input);
+  if (!Number.isInteger(n) || n < ID_MIN_LENGTH || n > ID_MAX_LENGTH) return null;
+  return n;
+}
+
+async function idTaken(env: Env, kind: IdKind, id: string): Promise<boolean> {
+  if (kind === "guest_link") {
+    return Boolean(await env.DB.prepare("SELECT 1 AS taken FROM guest_links WHERE id = ?").bind(id).first());
+  }
+  // Aliases resolve after ids, so a new id equal to an alias would hijack that alias' links.
+  const row = await env.DB.prepare(
+    `SELECT 1 AS taken FROM entries WHERE id = ?1 OR alias = ?1
+     UNION ALL
+     SELECT 1 FROM multipart_uploads WHERE entry_id = ?1
+     LIMIT 1`,
+  )
+    .bind(id)
+    .first();
+  return Boolean(row) || Boolean(await env.BUCKET.head(id));
+}
+
+// Public ids are bearer secrets, so they come from generateID() at the configured length and are never reused.
+async function generateUniqueID(env: Env, kind: IdKind): Promise<string> {
+  const length = parseIdLength(await getSetting(env, ID_LENGTH_SETTINGS[kind])) ?? ID_LENGTH;
+  for (let attempt = 0; attempt < ID_GENERATION_ATTEMPTS; attempt += 1) {
+    const id = generateID(length);
+    if (!(await idTaken(env, kind, id))) return id;
+  }
+  throw new Error(`could not generate a unique ${kind} id`);
+}
+
+function randomToken(byteLength: number): string {
+  return bytesToBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
 function withCors(headers: HeadersInit = {}): Headers {
   const h = new Headers(headers);
   h.set("Access-Control-Allow-Origin", "*");
-  h.set("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
-  h.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  h.set("Access-Control-Allow-Methods", "GET, HEAD, POST, PUT, PATCH, DELETE, OPTIONS");
+  h.set(
+    "Access-Control-Allow-Headers",
+    `Content-Type, Authorization, ${TOTP_HEADER}, Content-Digest, Repr-Digest, Digest, Tus-Resumable, Upload-Length, ` +
+      "Upload-Offset, Upload-Metadata, Upload-Defer-Length, X-HTTP-Method-Override, X-Entry-Password",
+  );
+  h.set(
+    "Access-Control-Expose-Headers",
+    "Content-Digest, Repr-Digest, Location, Tus-Resumable, Tus-Version, Tus-Extension, Tus-Max-Size, Upload-Offset, " +
+      "Upload-Length, Upload-Metadata, Upload-Expires",
+  );
   return h;
 }
 
@@ -91,6 +352,45 @@ function json(data: unknown, status = 200): Response {
   });
 }
 
+function tusResponse(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(null, {
+    status,
+    headers: withCors({ "Tus-Resumable": TUS_VERSION, "Cache-Control": "no-store", ...headers }),
+  });
+}
+
+function tusError(error: string, status: number): Response {
+  const res = json({ error }, status);
+  res.headers.set("Tus-Resumable", TUS_VERSION);
+  return res;
+}
+
+// Parses a tus Upload-Metadata header (`key base64value,key2 base64value2,flag`); null when malformed.
+export function parseTusMetadata(header: string | null): Map<string, string> | null {
+  const meta = new Map<string, string>();
+  if (!header || !header.trim()) return meta;
+  for (const pair of header.split(",")) {
+    const [key, value, ...rest] = pair.trim().split(" ");
+    if (!key || rest.length || meta.has(key)) return null;
+    if (!value) {
+      meta.set(key, "");
+      continue;
+    }
+    try {
+      meta.set(key, new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(base64ToBytes(value)));
+    } catch {
+      return null;
+    }
+  }
+  return meta;
+}
+
+export function parseByteLength(input: string | null): number | null {
+  if (!input || !/^\d+$/.test(input)) return null;
+  const n = Number(input);
+  return Number.isSafeInteger(n) ? n : null;
+}
+
 export function parseExpirationDays(input: string | null): number | null {
   if (!input) return null;
   const n = Number.parseInt(input, 10);
@@ -117,10 +417,48 @@ export function expirationToISO(days: number | null): string | null {
   return d.toISOString();
 }
 
+// Shared by the form and multipart upload endpoints; `read` returns the raw field value.
+async function parseUploadOptions(read: (key: string) => unknown): Promise<UploadOptions> {
+  const noteRaw = read("note");
+  const note = typeof noteRaw === "string" ? noteRaw.trim().slice(0, 1000) || null : null;
+  const expirationRaw = read("expirationDays");
+  const expiration = expirationToISO(parseExpirationDays(expirationRaw == null ? null : String(expirationRaw)));
+  const password = normalizeEntryPassword(read("password"));
+  return {
+    note,
+    expiration,
+    passwordHash: password ? await hashPassword(password) : null,
+    maxDownloads: parseMaxDownloads(read("maxDownloads")),
+  };
+}
+
+export function parseMaxDownloads(input: unknown): number | null {
+  if (input == null || input === "") return null;
+  const n = Number(input);
+  if (!Number.isInteger(n) || n <= 0) return null;
+  return Math.min(n, MAX_DOWNLOADS_LIMIT);
+}
+
+export function isLinkPreviewBot(userAgent: string | null): boolean {
+  return Boolean(userAgent && LINK_PREVIEW_BOT_PATTERN.test(userAgent));
+}
+
+export function normalizeEntryPassword(input: unknown): string | null {
+  if (typeof input !== "string") return null;
+  const value = input.trim();
+  if (!value || value.length > 128) return null;
+  return value;
+}
+
 function boolFromSetting(value: string | null): boolean {
   return value === "1" || value === "true";
 }
 
+async function getSetting(env: Env, key: string): Promise<string | null> {
+  const row = await env.DB.prepare("SELECT value FROM settings WHERE key = ?").bind(key).first<{ value: string }>();
+  return row?.value ?? null;
+}
+
 async function ensureSchema(env: Env): Promise<void> {
   await env.DB.prepare(
     `CREATE TABLE IF NOT EXISTS settings (
@@ -161,10 +499,113 @@ async function ensureSchema(env: Env): Promise<void> {
     )`,
   ).run();
 
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT,
+      username TEXT NOT NULL,
+      created_time DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at TEXT NOT NULL,
+      last_seen_at TEXT,
+      ip TEXT,
+      user_agent TEXT
+    )`,
+  ).run();
+
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS api_tokens (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      scopes TEXT NOT NULL,
+      created_by TEXT,
+      created_time DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_used_at TEXT
+    )`,
+  ).run();
+
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS blobs (
+      hash TEXT PRIMARY KEY,
+      object_key TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      ref_count INTEGER NOT NULL DEFAULT 0,
+      created_time DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  ).run();
+
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS signed_url_uses (
+      nonce TEXT PRIMARY KEY,
+      entry_id TEXT NOT NULL,
+      max_uses INTEGER NOT NULL,
+      uses INTEGER NOT NULL DEFAULT 0,
+      expires_at TEXT NOT NULL,
+      created_by TEXT,
+      created_time DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  ).run();
+
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS auth_failures (
+      kind TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      failures INTEGER NOT NULL DEFAULT 0,
+      last_failure_at TEXT NOT NULL,
+      locked_until TEXT,
+      PRIMARY KEY (kind, subject)
+    )`,
+  ).run();
+
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS totp_credentials (
+      owner_key TEXT PRIMARY KEY,
+      secret TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 0,
+      recovery_codes TEXT,
+      last_counter INTEGER,
+      created_time DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  ).run();
+
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'viewer',
+      created_time DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  ).run();
+
   const alterStatements = [
     "ALTER TABLE guest_links ADD COLUMN label TEXT",
     "ALTER TABLE guest_links ADD COLUMN created_time DATETIME DEFAULT CURRENT_TIMESTAMP",
     "ALTER TABLE guest_links ADD COLUMN upload_count INTEGER DEFAULT 0",
+    "ALTER TABLE guest_links ADD COLUMN created_by TEXT",
+    "ALTER TABLE entries ADD COLUMN created_by TEXT",
+    "ALTER TABLE multipart_uploads ADD COLUMN created_by TEXT",
+    "ALTER TABLE entries ADD COLUMN password_hash TEXT",
+    "ALTER TABLE multipart_uploads ADD COLUMN password_hash TEXT",
+    "ALTER TABLE entries ADD COLUMN max_downloads INTEGER",
+    "ALTER TABLE entries ADD COLUMN served_downloads INTEGER NOT NULL DEFAULT 0",
+    "ALTER TABLE entries ADD COLUMN last_served_at TEXT",
+    "ALTER TABLE multipart_uploads ADD COLUMN max_downloads INTEGER",
+    "ALTER TABLE entries ADD COLUMN alias TEXT",
+    "ALTER TABLE multipart_uploads ADD COLUMN alias TEXT",
+    "ALTER TABLE entries ADD COLUMN sha256 TEXT",
+    "ALTER TABLE entries ADD COLUMN object_key TEXT",
+    "ALTER TABLE multipart_uploads ADD COLUMN expected_sha256 TEXT",
+    "ALTER TABLE multipart_uploads ADD COLUMN tus_offset INTEGER",
+    "ALTER TABLE multipart_uploads ADD COLUMN tus_parts INTEGER NOT NULL DEFAULT 0",
+    "ALTER TABLE multipart_uploads ADD COLUMN tus_tail_size INTEGER NOT NULL DEFAULT 0",
+    "ALTER TABLE multipart_uploads ADD COLUMN expires_at TEXT",
+    "ALTER TABLE multipart_uploads ADD COLUMN fingerprint TEXT",
+    "ALTER TABLE multipart_uploads ADD COLUMN chunk_size INTEGER",
+    "ALTER TABLE multipart_uploads ADD COLUMN guest_link_id TEXT",
+    "ALTER TABLE entries ADD COLUMN relative_path TEXT",
+    "ALTER TABLE multipart_uploads ADD COLUMN relative_path TEXT",
+    "ALTER TABLE multipart_uploads ADD COLUMN server_streamed INTEGER NOT NULL DEFAULT 0",
   ];
 
   for (const stmt of alterStatements) {
@@ -174,6 +615,7 @@ async function ensureSchema(env: Env): Promise<void> {
       // Ignore if column already exists in deployed database.
     }
   }
+  await env.DB.prepare("CREATE UNIQUE INDEX IF NOT EXISTS idx_entries_alias ON entries(alias)").run();
 
   await env.DB.prepare(
     "INSERT OR IGNORE INTO settings(key, value) VALUES ('store_forever', '1')",
@@ -199,107 +641,592 @@ function unauthorized(): Response {
   return new Response("Unauthorized", { status: 401, headers: withCors() });
 }
 
-async function requireAuth(request: Request, env: Env): Promise<boolean> {
-  return request.headers.get("Authorization") === env.PS_SHARED_SECRET;
+function forbidden(): Response {
+  return json({ error: "forbidden" }, 403);
 }
 
-function htmlPage(): string {
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8" />
-  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-  <link rel="icon" type="image/svg+xml" href="/favicon.svg" />
-  <title>PicoShare TS</title>
-  <style>
-    :root {
-      --bg: #eef1f8;
-      --bg-2: #f7f9ff;
-      --glass: rgba(255, 255, 255, 0.45);
-      --glass-strong: rgba(255, 255, 255, 0.72);
-      --text: #26354d;
-      --muted: #6f7d94;
-      --line: rgba(255, 255, 255, 0.68);
-      --shadow: 0 24px 80px rgba(66, 82, 130, 0.24);
-      --primary: #101b72;
-      --accent: #4ec7a7;
-      --danger: #eb4b70;
-      --blue: #328ecf;
-    }
-    * { box-sizing: border-box; }
-    body {
-      margin: 0;
-      font-family: "Avenir Next", "SF Pro Text", "Segoe UI", sans-serif;
-      color: var(--text);
-      background:
-        radial-gradient(circle at 18% 86%, rgba(68, 95, 255, 0.5), transparent 30%),
-        radial-gradient(circle at 80% 30%, rgba(243, 173, 233, 0.6), transparent 30%),
-        radial-gradient(circle at 55% 50%, rgba(255, 255, 255, 0.7), transparent 42%),
-        linear-gradient(145deg, var(--bg-2), var(--bg));
-      min-height: 100vh;
-      padding: 18px;
-    }
-    .shell {
-      max-width: 1240px;
-      margin: 0 auto;
-      background: transparent;
-      border: 0;
-      border-radius: 0;
-      padding: 0 0 48px;
-      min-height: calc(100vh - 36px);
-      box-shadow: none;
-      backdrop-filter: none;
-    }
-    .topbar {
-      display: flex;
-      align-items: center;
-      justify-content: space-between;
-      gap: 20px;
-      padding: 18px 52px;
-    }
-    .brand { font-size: 32px; font-weight: 600; letter-spacing: 0.5px; color: #42506a; }
-    .nav { display: flex; gap: 10px; align-items: center; }
-    .nav .nav-upload,
-    .nav .btn.small {
-      height: 40px;
-      box-sizing: border-box;
-    }
-    .nav button:not(.btn):not(.nav-upload),
-    .sys-toggle {
-      border: 0;
-      background: transparent;
-      color: #58657d;
-      border-radius: 8px;
-      padding: 8px 14px;
-      font-size: 24px;
-      cursor: pointer;
-      transition: background 0.2s ease, color 0.2s ease, transform 0.2s ease;
-    }
-    .nav button:not(.btn):not(.nav-upload)[aria-current="page"],
-    .sys-toggle.active {
-      background: var(--accent);
-      color: #fff;
-    }
-    .nav button:not(.btn):not(.nav-upload):hover,
-    .sys-toggle:hover { background: rgba(78, 199, 167, 0.2); transform: translateY(-1px); }
-    .nav button.nav-upload {
-      cursor: pointer;
-      font-weight: 700;
-      transition: all 0.2s;
-      padding: 0 18px;
-      border-radius: 100px;
-      background: #cfef00;
-      border: 1px solid transparent;
-      display: inline-flex;
-      align-items: center;
-      font-size: 15px;
-      color: #111;
-      gap: 4px;
-      min-width: 138px;
-    }
-    .nav button.nav-upload:hover {
-      background: #c4e201;
-      transform: translateY(-1px);
+function tooManyAttempts(retryAfterSeconds: number): Response {
+  const res = json({ error: "too many failed attempts, try again later", retryAfter: retryAfterSeconds }, 429);
+  res.headers.set("Retry-After", String(retryAfterSeconds));
+  return res;
+}
+
+export function normalizeUserRole(input: unknown): UserRole | null {
+  return USER_ROLES.includes(input as UserRole) ? (input as UserRole) : null;
+}
+
+export function roleSatisfies(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+export function requiredRoleForRoute(method: string, pathname: string): UserRole {
+  if (pathname === "/api/me") return "viewer";
+  if (pathname === "/api/sessions" || pathname.startsWith("/api/sessions/")) return "viewer";
+  if (pathname === "/api/2fa" || pathname.startsWith("/api/2fa/")) return "viewer";
+  if (pathname === "/api/users" || pathname.startsWith("/api/users/")) return "admin";
+  if (pathname === "/api/tokens" || pathname.startsWith("/api/tokens/")) return "admin";
+  if (pathname === "/api/auth-lockouts" || pathname.startsWith("/api/auth-lockouts/")) return "admin";
+  if (pathname === "/api/entry/multipart/abort-stale") return "admin";
+  if (pathname === "/api/settings") return method === "GET" ? "viewer" : "admin";
+  if (pathname === "/api/guest-links" || pathname.startsWith("/api/guest-links/")) return "uploader";
+  if (method === "GET") return "viewer";
+  return "uploader";
+}
+
+export function normalizeApiTokenScopes(input: unknown): ApiTokenScope[] {
+  const values = Array.isArray(input) ? input : typeof input === "string" ? input.split(",") : [];
+  return API_TOKEN_SCOPES.filter((scope) => values.some((v) => String(v).trim() === scope));
+}
+
+// Returns null for routes API tokens may never call (account, session and token management).
+export function requiredScopeForRoute(method: string, pathname: string): ApiTokenScope | null {
+  if (pathname === "/api/settings" || pathname === "/api/system-info") return "settings";
+  if (pathname === "/api/guest-links" || pathname.startsWith("/api/guest-links/")) return "guest-links:manage";
+  if (pathname === "/api/entries" || pathname.startsWith("/api/entry")) {
+    return method === "GET" ? "entries:read" : "entries:write";
+  }
+  if (pathname === "/api/tus" || pathname.startsWith("/api/tus/")) return "entries:write";
+  if (pathname.startsWith("/api/put/")) return "entries:write";
+  return null;
+}
+
+export function tokenScopesAllow(scopes: ApiTokenScope[], method: string, pathname: string): boolean {
+  if (pathname === "/api/me") return true;
+  const required = requiredScopeForRoute(method, pathname);
+  return required !== null && scopes.includes(required);
+}
+
+function canModifyOwned(principal: AuthPrincipal, createdBy: string | null): boolean {
+  if (principal.role === "admin") return true;
+  return principal.userId !== null && createdBy === principal.userId;
+}
+
+export function sanitizeUsername(input: unknown): string | null {
+  if (typeof input !== "string") return null;
+  const value = input.trim().toLowerCase();
+  if (!/^[a-z0-9._-]{1,32}$/.test(value)) return null;
+  if (value === BOOTSTRAP_ADMIN_USERNAME) return null;
+  return value;
+}
+
+export function parseBasicAuthorization(header: string | null): { username: string; password: string } | null {
+  if (!header || !header.startsWith("Basic ")) return null;
+  let decoded: string;
+  try {
+    decoded = new TextDecoder().decode(base64ToBytes(header.slice(6).trim()));
+  } catch {
+    return null;
+  }
+  const idx = decoded.indexOf(":");
+  if (idx <= 0) return null;
+  return { username: decoded.slice(0, idx), password: decoded.slice(idx + 1) };
+}
+
+function bootstrapPrincipal(): AuthPrincipal {
+  return { userId: null, username: BOOTSTRAP_ADMIN_USERNAME, role: "admin", sessionId: null, scopes: null };
+}
+
+function sessionSigningSecret(env: Env): string {
+  return env.PS_SESSION_SECRET || env.PS_SHARED_SECRET;
+}
+
+export function parseCookies(header: string | null): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const part of (header || "").split(";")) {
+    const idx = part.indexOf("=");
+    if (idx <= 0) continue;
+    const name = part.slice(0, idx).trim();
+    const value = part.slice(idx + 1).trim();
+    try {
+      cookies.set(name, decodeURIComponent(value));
+    } catch {
+      cookies.set(name, value);
+    }
+  }
+  return cookies;
+}
+
+// Session tokens look like <session id>.<expiry epoch seconds>.<HMAC-SHA256 signature>.
+export async function signSessionToken(secret: string, sessionId: string, expiresAtSec: number): Promise<string> {
+  const payload = `${sessionId}.${expiresAtSec}`;
+  return `${payload}.${await hmacSha256Base64Url(secret, payload)}`;
+}
+
+export async function verifySessionToken(
+  secret: string,
+  token: string,
+  nowSec = Math.floor(Date.now() / 1000),
+): Promise<{ sessionId: string; expiresAtSec: number } | null> {
+  const parts = token.split(".");
+  if (parts.length !== 3 || !parts[0]) return null;
+  const expiresAtSec = Number.parseInt(parts[1], 10);
+  if (!Number.isFinite(expiresAtSec) || expiresAtSec <= nowSec) return null;
+  const expected = await hmacSha256Base64Url(secret, `${parts[0]}.${parts[1]}`);
+  if (!timingSafeEqualBytes(new TextEncoder().encode(expected), new TextEncoder().encode(parts[2]))) return null;
+  return { sessionId: parts[0], expiresAtSec };
+}
+
+// Keyed by the password hash so changing or removing the password invalidates earlier unlocks.
+function entryUnlockSecret(env: Env, entry: EntryRow): string {
+  return `${sessionSigningSecret(env)}:unlock:${entry.password_hash}`;
+}
+
+async function entryUnlocked(request: Request, env: Env, entry: EntryRow): Promise<boolean> {
+  if (!entry.password_hash) return true;
+  const token = parseCookies(request.headers.get("Cookie")).get(`${ENTRY_UNLOCK_COOKIE_PREFIX}${entry.id}`);
+  if (!token) return false;
+  const verified = await verifySessionToken(entryUnlockSecret(env, entry), token);
+  return verified?.sessionId === entry.id;
+}
+
+function downloadSigningSecret(env: Env): string {
+  return `${sessionSigningSecret(env)}:download`;
+}
+
+function downloadSignaturePayload(id: string, expiresAtSec: number, nonce: string | null, ip: string | null): string {
+  return [id, expiresAtSec, nonce || "", ip || ""].join("\n");
+}
+
+// Query string for a signed `/-:id` link; `nonce` ties it to a use-count row, `ip` binds it to one client.
+export async function signDownloadQuery(
+  secret: string,
+  id: string,
+  options: { expiresAtSec: number; nonce?: string | null; ip?: string | null },
+): Promise<string> {
+  const params = new URLSearchParams({ exp: String(options.expiresAtSec) });
+  if (options.nonce) params.set("n", options.nonce);
+  if (options.ip) params.set("ip", options.ip);
+  params.set("sig", await hmacSha256Base64Url(secret, downloadSignaturePayload(id, options.expiresAtSec, options.nonce ?? null, options.ip ?? null)));
+  return params.toString();
+}
+
+export async function verifyDownloadQuery(
+  secret: string,
+  id: string,
+  params: URLSearchParams,
+  clientIp: string | null,
+  nowSec = Math.floor(Date.now() / 1000),
+): Promise<{ nonce: string | null } | null> {
+  const sig = params.get("sig");
+  const expiresAtSec = Number.parseInt(params.get("exp") || "", 10);
+  if (!sig || !Number.isFinite(expiresAtSec) || expiresAtSec <= nowSec) return null;
+  const nonce = params.get("n");
+  const ip = params.get("ip");
+  if (ip && ip !== clientIp) return null;
+  const expected = await hmacSha256Base64Url(secret, downloadSignaturePayload(id, expiresAtSec, nonce, ip));
+  if (!timingSafeEqualBytes(new TextEncoder().encode(expected), new TextEncoder().encode(sig))) return null;
+  return { nonce };
+}
+
+// Signed links are checked before anything else; unsigned ones only pass while signing isn't required.
+async function authorizeSignedDownload(
+  request: Request,
+  env: Env,
+  url: URL,
+  entry: EntryRow,
+): Promise<{ ok: boolean; nonce: string | null }> {
+  if (url.searchParams.has("sig")) {
+    const verified = await verifyDownloadQuery(downloadSigningSecret(env), entry.id, url.searchParams, clientIp(request));
+    return verified ? { ok: true, nonce: verified.nonce } : { ok: false, nonce: null };
+  }
+  if (!boolFromSetting(await getSetting(env, "require_signed_urls"))) return { ok: true, nonce: null };
+  return { ok: Boolean(await requireAuth(request, env)), nonce: null };
+}
+
+async function signedUrlHasUsesLeft(env: Env, nonce: string): Promise<boolean> {
+  const row = await env.DB.prepare(
+    "SELECT 1 AS ok FROM signed_url_uses WHERE nonce = ? AND uses < max_uses AND expires_at > ?",
+  )
+    .bind(nonce, new Date().toISOString())
+    .first<{ ok: number }>();
+  return Boolean(row);
+}
+
+async function consumeSignedUrlUse(env: Env, nonce: string): Promise<boolean> {
+  const res = await env.DB.prepare(
+    "UPDATE signed_url_uses SET uses = uses + 1 WHERE nonce = ? AND uses < max_uses AND expires_at > ?",
+  )
+    .bind(nonce, new Date().toISOString())
+    .run();
+  return Number(res.meta?.changes || 0) > 0;
+}
+
+// Every route that serves bytes for a use-limited link goes through here: a counted response spends a use,
+// anything else (HEAD, 304, partial ranges) only needs one left.
+async function signedUrlAllows(env: Env, nonce: string, counted: boolean): Promise<boolean> {
+  return counted ? consumeSignedUrlUse(env, nonce) : signedUrlHasUsesLeft(env, nonce);
+}
+
+function sessionTokenFromRequest(request: Request): string | null {
+  const header = request.headers.get("Authorization");
+  if (header?.startsWith("Bearer ")) return header.slice(7).trim() || null;
+  return parseCookies(request.headers.get("Cookie")).get(SESSION_COOKIE_NAME) || null;
+}
+
+function sessionCookie(request: Request, token: string, maxAgeSec: number): string {
+  const secure = new URL(request.url).protocol === "https:" ? "; Secure" : "";
+  return `${SESSION_COOKIE_NAME}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${maxAgeSec}${secure}`;
+}
+
+async function authenticateCredentials(env: Env, rawUsername: string, password: string): Promise<AuthPrincipal | null> {
+  const username = rawUsername.trim().toLowerCase();
+  if (!username || username === BOOTSTRAP_ADMIN_USERNAME) {
+    return env.PS_SHARED_SECRET && password === env.PS_SHARED_SECRET ? bootstrapPrincipal() : null;
+  }
+  const user = await env.DB.prepare(
+    "SELECT id, username, role, password_hash FROM users WHERE username = ?",
+  )
+    .bind(username)
+    .first<UserRow & { password_hash: string }>();
+  if (!user || !(await verifyPasswordHash(user.password_hash, password))) return null;
+  return {
+    userId: user.id,
+    username: user.username,
+    role: normalizeUserRole(user.role) || "viewer",
+    sessionId: null,
+    scopes: null,
+  };
+}
+
+async function createSession(env: Env, request: Request, principal: AuthPrincipal): Promise<{ token: string; expiresAt: string }> {
+  const id = randomToken(18);
+  const expiresAtSec = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+  const expiresAt = new Date(expiresAtSec * 1000).toISOString();
+  await env.DB.prepare(
+    `INSERT INTO sessions (id, user_id, username, created_time, expires_at, last_seen_at, ip, user_agent)
+     VALUES (?, ?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?)`,
+  )
+    .bind(
+      id,
+      principal.userId,
+      principal.username,
+      expiresAt,
+      new Date().toISOString(),
+      request.headers.get("cf-connecting-ip"),
+      request.headers.get("user-agent"),
+    )
+    .run();
+  return { token: await signSessionToken(sessionSigningSecret(env), id, expiresAtSec), expiresAt };
+}
+
+async function principalFromSession(env: Env, token: string): Promise<AuthPrincipal | null> {
+  const verified = await verifySessionToken(sessionSigningSecret(env), token);
+  if (!verified) return null;
+  const nowIso = new Date().toISOString();
+  const session = await env.DB.prepare(
+    "SELECT id, user_id, username, expires_at, last_seen_at FROM sessions WHERE id = ? AND expires_at > ?",
+  )
+    .bind(verified.sessionId, nowIso)
+    .first<SessionRow>();
+  if (!session) return null;
+
+  let principal: AuthPrincipal;
+  if (session.user_id) {
+    // Re-read the user so role changes and deletions apply to live sessions.
+    const user = await getUserById(env, session.user_id);
+    if (!user) return null;
+    principal = {
+      userId: user.id,
+      username: user.username,
+      role: normalizeUserRole(user.role) || "viewer",
+      sessionId: session.id,
+      scopes: null,
+    };
+  } else {
+    principal = { ...bootstrapPrincipal(), sessionId: session.id };
+  }
+
+  if (!session.last_seen_at || Date.parse(session.last_seen_at) < Date.now() - 60_000) {
+    await env.DB.prepare("UPDATE sessions SET last_seen_at = ? WHERE id = ?").bind(nowIso, session.id).run();
+  }
+  return principal;
+}
+
+async function principalFromApiToken(env: Env, token: string): Promise<AuthPrincipal | null> {
+  const row = await env.DB.prepare(
+    "SELECT id, name, scopes, created_by, created_time, last_used_at FROM api_tokens WHERE token_hash = ?",
+  )
+    .bind(await sha256Hex(token))
+    .first<ApiTokenRow>();
+  if (!row) return null;
+
+  // Tokens act with their creator's current role, narrowed to the token scopes.
+  let principal: AuthPrincipal;
+  if (row.created_by) {
+    const user = await getUserById(env, row.created_by);
+    if (!user) return null;
+    principal = { userId: user.id, username: user.username, role: normalizeUserRole(user.role) || "viewer", sessionId: null, scopes: null };
+  } else {
+    principal = bootstrapPrincipal();
+  }
+
+  if (!row.last_used_at || Date.parse(row.last_used_at) < Date.now() - 60_000) {
+    await env.DB.prepare("UPDATE api_tokens SET last_used_at = ? WHERE id = ?")
+      .bind(new Date().toISOString(), row.id)
+      .run();
+  }
+  return { ...principal, scopes: normalizeApiTokenScopes(row.scopes) };
+}
+
+// A request may be authorised more than once (e.g. signed-link and password checks on /_preview); since a
+// TOTP code is single-use, the first result is reused instead of verifying the code again.
+const authResults = new WeakMap<Request, Promise<AuthPrincipal | null>>();
+
+function requireAuth(request: Request, env: Env): Promise<AuthPrincipal | null> {
+  let result = authResults.get(request);
+  if (!result) {
+    result = authenticateRequest(request, env);
+    authResults.set(request, result);
+  }
+  return result;
+}
+
+async function authenticateRequest(request: Request, env: Env): Promise<AuthPrincipal | null> {
+  const header = request.headers.get("Authorization");
+  if (header?.startsWith(`Bearer ${API_TOKEN_PREFIX}`)) {
+    return principalFromApiToken(env, header.slice(7).trim());
+  }
+
+  const sessionToken = sessionTokenFromRequest(request);
+  if (sessionToken) {
+    const fromSession = await principalFromSession(env, sessionToken);
+    if (fromSession) return fromSession;
+  }
+
+  if (!header) return null;
+  let principal: AuthPrincipal | null = null;
+  // The shared secret keeps working as the bootstrap admin login.
+  if (env.PS_SHARED_SECRET && header === env.PS_SHARED_SECRET) {
+    principal = bootstrapPrincipal();
+  } else {
+    const basic = parseBasicAuthorization(header);
+    if (basic) principal = await authenticateCredentials(env, basic.username, basic.password);
+  }
+  if (!principal) return null;
+
+  // Direct credential auth has no login step, so an enrolled second factor has to come with each request.
+  // Codes are single-use here too, so a captured header can't be replayed within its time step.
+  const credential = await getTotpCredential(env, totpOwnerKey(principal));
+  if (!credential?.enabled) return principal;
+  const code = (request.headers.get(TOTP_HEADER) || "").replace(/\s/g, "");
+  return (await consumeTotpCode(env, credential, code)) ? principal : null;
+}
+
+function totpOwnerKey(principal: AuthPrincipal): string {
+  return principal.userId ?? BOOTSTRAP_TOTP_OWNER;
+}
+
+async function getTotpCredential(env: Env, ownerKey: string): Promise<TotpCredentialRow | null> {
+  return env.DB.prepare(
+    "SELECT owner_key, secret, enabled, recovery_codes, last_counter FROM totp_credentials WHERE owner_key = ?",
+  )
+    .bind(ownerKey)
+    .first<TotpCredentialRow>();
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.getRandomValues(new Uint8Array(5))).toLowerCase();
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  });
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+function clientIp(request: Request): string | null {
+  return request.headers.get("cf-connecting-ip");
+}
+
+// Lockout target for credentials sent directly in the Authorization header; null for tokens and sessions.
+function directCredentialTarget(request: Request): string | null {
+  const header = request.headers.get("Authorization");
+  if (!header || header.startsWith("Bearer ")) return null;
+  const basic = parseBasicAuthorization(header);
+  return accountLockoutTarget(basic?.username || "");
+}
+
+function accountLockoutTarget(username: string): string {
+  return `account:${username.trim().toLowerCase() || BOOTSTRAP_ADMIN_USERNAME}`;
+}
+
+export function lockoutDurationSeconds(failures: number, threshold: number): number {
+  if (failures < threshold) return 0;
+  return Math.min(AUTH_LOCKOUT_BASE_SECONDS * 2 ** (failures - threshold), AUTH_LOCKOUT_MAX_SECONDS);
+}
+
+// Seconds until the IP or the target may try again, or 0 when neither is locked.
+async function authLockoutRemaining(env: Env, ip: string | null, target: string): Promise<number> {
+  const now = Date.now();
+  const row = await env.DB.prepare(
+    `SELECT MAX(locked_until) AS locked_until FROM auth_failures
+     WHERE ((kind = 'ip' AND subject = ?) OR (kind = 'target' AND subject = ?)) AND locked_until > ?`,
+  )
+    .bind(ip || "", target, new Date(now).toISOString())
+    .first<{ locked_until: string | null }>();
+  if (!row?.locked_until) return 0;
+  return Math.max(1, Math.ceil((new Date(row.locked_until).getTime() - now) / 1000));
+}
+
+async function recordAuthFailure(env: Env, ip: string | null, target: string): Promise<void> {
+  const now = Date.now();
+  const counters: Array<[AuthFailureKind, string, number]> = [["target", target, AUTH_LOCKOUT_TARGET_THRESHOLD]];
+  if (ip) counters.push(["ip", ip, AUTH_LOCKOUT_IP_THRESHOLD]);
+  for (const [kind, subject, threshold] of counters) {
+    const row = await env.DB.prepare("SELECT failures, last_failure_at FROM auth_failures WHERE kind = ? AND subject = ?")
+      .bind(kind, subject)
+      .first<{ failures: number; last_failure_at: string }>();
+    const recent = row && now - new Date(row.last_failure_at).getTime() < AUTH_FAILURE_WINDOW_SECONDS * 1000;
+    const failures = recent ? Number(row.failures) + 1 : 1;
+    const lockSeconds = lockoutDurationSeconds(failures, threshold);
+    await env.DB.prepare(
+      "REPLACE INTO auth_failures (kind, subject, failures, last_failure_at, locked_until) VALUES (?, ?, ?, ?, ?)",
+    )
+      .bind(kind, subject, failures, new Date(now).toISOString(), lockSeconds ? new Date(now + lockSeconds * 1000).toISOString() : null)
+      .run();
+  }
+}
+
+async function clearAuthFailures(env: Env, target: string): Promise<void> {
+  await env.DB.prepare("DELETE FROM auth_failures WHERE kind = 'target' AND subject = ?").bind(target).run();
+}
+
+async function storeRecoveryCodes(env: Env, ownerKey: string, codes: string[]): Promise<void> {
+  const hashes = await Promise.all(codes.map((code) => sha256Hex(normalizeRecoveryCode(code))));
+  await env.DB.prepare("UPDATE totp_credentials SET recovery_codes = ? WHERE owner_key = ?")
+    .bind(JSON.stringify(hashes), ownerKey)
+    .run();
+}
+
+// Accepts a current TOTP code only if its time step is newer than the last one accepted for this owner.
+async function consumeTotpCode(env: Env, credential: TotpCredentialRow, code: string): Promise<boolean> {
+  const counter = await matchTotpCounter(credential.secret, code);
+  if (counter === null) return false;
+  const res = await env.DB.prepare(
+    "UPDATE totp_credentials SET last_counter = ? WHERE owner_key = ? AND COALESCE(last_counter, -1) < ?",
+  )
+    .bind(counter, credential.owner_key, counter)
+    .run();
+  return Number(res.meta?.changes || 0) > 0;
+}
+
+// Accepts a current TOTP code (each time step only once) or consumes one recovery code.
+async function consumeSecondFactor(env: Env, credential: TotpCredentialRow, rawCode: string): Promise<boolean> {
+  const code = rawCode.replace(/\s/g, "");
+  if (/^\d+$/.test(code)) return consumeTotpCode(env, credential, code);
+
+  const hash = await sha256Hex(normalizeRecoveryCode(code));
+  let hashes: string[] = [];
+  try {
+    hashes = JSON.parse(credential.recovery_codes || "[]") as string[];
+  } catch {
+    hashes = [];
+  }
+  if (!hashes.includes(hash)) return false;
+  await env.DB.prepare("UPDATE totp_credentials SET recovery_codes = ? WHERE owner_key = ?")
+    .bind(JSON.stringify(hashes.filter((h) => h !== hash)), credential.owner_key)
+    .run();
+  return true;
+}
+
+function htmlPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <link rel="icon" type="image/svg+xml" href="/favicon.svg" />
+  <title>PicoShare TS</title>
+  <style>
+    :root {
+      --bg: #eef1f8;
+      --bg-2: #f7f9ff;
+      --glass: rgba(255, 255, 255, 0.45);
+      --glass-strong: rgba(255, 255, 255, 0.72);
+      --text: #26354d;
+      --muted: #6f7d94;
+      --line: rgba(255, 255, 255, 0.68);
+      --shadow: 0 24px 80px rgba(66, 82, 130, 0.24);
+      --primary: #101b72;
+      --accent: #4ec7a7;
+      --danger: #eb4b70;
+      --blue: #328ecf;
+    }
+    * { box-sizing: border-box; }
+    body {
+      margin: 0;
+      font-family: "Avenir Next", "SF Pro Text", "Segoe UI", sans-serif;
+      color: var(--text);
+      background:
+        radial-gradient(circle at 18% 86%, rgba(68, 95, 255, 0.5), transparent 30%),
+        radial-gradient(circle at 80% 30%, rgba(243, 173, 233, 0.6), transparent 30%),
+        radial-gradient(circle at 55% 50%, rgba(255, 255, 255, 0.7), transparent 42%),
+        linear-gradient(145deg, var(--bg-2), var(--bg));
+      min-height: 100vh;
+      padding: 18px;
+    }
+    .shell {
+      max-width: 1240px;
+      margin: 0 auto;
+      background: transparent;
+      border: 0;
+      border-radius: 0;
+      padding: 0 0 48px;
+      min-height: calc(100vh - 36px);
+      box-shadow: none;
+      backdrop-filter: none;
+    }
+    .topbar {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 20px;
+      padding: 18px 52px;
+    }
+    .brand { font-size: 32px; font-weight: 600; letter-spacing: 0.5px; color: #42506a; }
+    .nav { display: flex; gap: 10px; align-items: center; }
+    .nav .nav-upload,
+    .nav .btn.small {
+      height: 40px;
+      box-sizing: border-box;
+    }
+    .nav button:not(.btn):not(.nav-upload),
+    .sys-toggle {
+      border: 0;
+      background: transparent;
+      color: #58657d;
+      border-radius: 8px;
+      padding: 8px 14px;
+      font-size: 24px;
+      cursor: pointer;
+      transition: background 0.2s ease, color 0.2s ease, transform 0.2s ease;
+    }
+    .nav button:not(.btn):not(.nav-upload)[aria-current="page"],
+    .sys-toggle.active {
+      background: var(--accent);
+      color: #fff;
+    }
+    .nav button:not(.btn):not(.nav-upload):hover,
+    .sys-toggle:hover { background: rgba(78, 199, 167, 0.2); transform: translateY(-1px); }
+    .nav button.nav-upload {
+      cursor: pointer;
+      font-weight: 700;
+      transition: all 0.2s;
+      padding: 0 18px;
+      border-radius: 100px;
+      background: #cfef00;
+      border: 1px solid transparent;
+      display: inline-flex;
+      align-items: center;
+      font-size: 15px;
+      color: #111;
+      gap: 4px;
+      min-width: 138px;
+    }
+    .nav button.nav-upload:hover {
+      background: #c4e201;
+      transform: translateY(-1px);
     }
     .nav button.nav-upload > svg {
       width: 24px;
@@ -492,6 +1419,28 @@ function htmlPage(): string {
       overflow: hidden;
       text-overflow: ellipsis;
     }
+    .upload-queue {
+      display: grid;
+      gap: 6px;
+      max-height: 320px;
+      overflow-y: auto;
+    }
+    .upload-queue-row {
+      display: grid;
+      grid-template-columns: minmax(0, 1fr) 160px minmax(90px, 200px);
+      gap: 10px;
+      align-items: center;
+      font-size: 13px;
+    }
+    .upload-queue-name,
+    .upload-queue-status {
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+    .upload-queue-row progress { width: 100%; }
+    .upload-queue-row.done .upload-queue-status { color: #236a53; }
+    .upload-queue-row.failed .upload-queue-status { color: var(--danger); }
     .upload-grid {
       display: grid;
       gap: 16px;
@@ -508,6 +1457,13 @@ function htmlPage(): string {
       font-size: 18px;
       line-height: 1.55;
     }
+    .qr-box {
+      width: 220px;
+      background: #fff;
+      border-radius: 8px;
+      padding: 8px;
+    }
+    .qr-box svg { display: block; width: 100%; height: auto; }
     .panel {
       border: 1px solid rgba(255, 255, 255, 0.7);
       border-radius: 12px;
@@ -782,12 +1738,20 @@ function htmlPage(): string {
     <h1 id="login-title">Welcome Back</h1>
     <p id="login-subtitle" class="auth-sub">Sign in to your account to continue</p>
     <div class="stack">
+      <div>
+        <label id="username-label" for="username">Username</label>
+        <input id="username" type="text" autocomplete="username" placeholder="Leave blank to use the shared secret" />
+      </div>
       <div>
         <label id="pw-label" for="pw">Passphrase</label>
         <input id="pw" type="password" autocomplete="current-password" placeholder="Enter your passphrase" />
       </div>
+      <div id="otp-row" class="hidden">
+        <label id="otp-label" for="otp">Authentication code</label>
+        <input id="otp" type="text" inputmode="numeric" autocomplete="one-time-code" placeholder="6-digit code or recovery code" />
+      </div>
       <button class="btn form-submit" id="login-btn" type="button">Sign In</button>
-      <p id="login-help" class="small">Authentication uses the shared secret configured on the worker.</p>
+      <p id="login-help" class="small">Sign in with your account, or leave the username blank to use the shared secret.</p>
     </div>
   </section>
 
@@ -828,6 +1792,12 @@ function htmlPage(): string {
         <div id="system-menu" class="system-menu" role="menu" aria-label="System pages">
           <button id="menu-system-info" type="button" data-view="systemInfo" role="menuitem">System Information</button>
           <button id="menu-settings" type="button" data-view="settings" role="menuitem">Settings</button>
+          <button id="menu-users" type="button" data-view="users" role="menuitem">Users</button>
+          <button id="menu-sessions" type="button" data-view="sessions" role="menuitem">Sessions</button>
+          <button id="menu-tokens" type="button" data-view="tokens" role="menuitem">API Tokens</button>
+          <button id="menu-2fa" type="button" data-view="twoFactor" role="menuitem">Two-Factor Auth</button>
+          <button id="menu-lockouts" type="button" data-view="lockouts" role="menuitem">Blocked Logins</button>
+          <button id="menu-uploads" type="button" data-view="pendingUploads" role="menuitem">Pending Uploads</button>
           <button type="button" id="logout-btn" role="menuitem">Logout</button>
         </div>
       </div>
@@ -860,7 +1830,8 @@ function htmlPage(): string {
   <script>
     (function() {
       var state = {
-        pw: localStorage.getItem('ps_pw') || '',
+        me: null,
+        users: [],
         view: 'upload',
         selectedId: null,
         files: [],
@@ -877,8 +1848,10 @@ function htmlPage(): string {
           login_subtitle: 'Sign in to your account to continue',
           passphrase: 'Passphrase',
           passphrase_placeholder: 'Enter your passphrase',
+          username: 'Username',
+          username_placeholder: 'Leave blank to use the shared secret',
           sign_in: 'Sign In',
-          login_help: 'Authentication uses the shared secret configured on the worker.',
+          login_help: 'Sign in with your account, or leave the username blank to use the shared secret.',
           nav_upload: 'Upload',
           nav_files: 'Files',
           nav_clips: 'Clips',
@@ -910,6 +1883,48 @@ function htmlPage(): string {
           note_optional: 'Note (optional)',
           note_placeholder: 'For Joe at ExampleCo',
           note_only_you: 'Note is only visible to you',
+          file_password: 'Download password',
+          file_password_optional: 'Download password (optional)',
+          alias: 'Custom link name',
+          alias_optional: 'Custom link name (optional)',
+          alias_placeholder: 'release-notes-v2',
+          alias_hint: 'Letters, numbers, - and _. The random link keeps working.',
+          file_password_placeholder: 'Visitors must enter this before downloading',
+          file_password_keep: 'Leave blank to keep the current password',
+          remove_file_password: 'Remove password',
+          password_protected: 'Password protected',
+          download_limit: 'Download limit',
+          landing_page_link: 'Landing page with file details, a preview and a download button.',
+          share_link_mode: 'Copied links open',
+          link_id_length: 'Link IDs',
+          file_link_id_length: 'File link length',
+          guest_link_id_length: 'Guest link length',
+          link_id_length_hint: 'Applies to new links only (8-32 characters). Longer links are harder to guess.',
+          uploads_section: 'Uploads',
+          max_upload_mb: 'Max upload size (MB)',
+          max_upload_mb_hint: '0 means no limit. Applies to signed-in uploads; guest links keep their own limits.',
+          stale_upload_hours: 'Abort unfinished uploads after (hours)',
+          stale_upload_hours_hint: 'Multipart uploads that are still incomplete after this long are aborted and their parts deleted (1-720).',
+          stale_uploads: 'Stale Uploads',
+          stale_uploads_desc: 'Multipart uploads started more than {hours} h ago that never finished. They are aborted automatically.',
+          parts: 'parts',
+          abort_stale_uploads: 'Abort All Stale Uploads',
+          abort_stale_uploads_confirm: 'Abort every stale upload and delete the parts received so far?',
+          stale_uploads_aborted: 'Aborted {count} stale upload(s).',
+          no_stale_uploads: 'No stale uploads.',
+          choose_folder: 'Choose Folder',
+          files_selected: '{count} files',
+          alias_single_file: 'An alias can only be set when uploading a single file.',
+          upload_queued: 'Waiting',
+          upload_done: 'Done',
+          upload_part_status: 'Part {part}/{total}',
+          batch_upload_partial: '{failed} of {total} files failed to upload. Submit again to retry them.',
+          relative_path: 'Folder path',
+          share_link_raw: 'The file itself',
+          share_link_landing: 'A landing page with details and a download button',
+          download_link_hint: 'Forces a download instead of opening in the browser. Add &as=name.ext to change the saved filename.',
+          burn_after_reading: 'Burn after reading (delete after the first download)',
+          downloads_used: 'Used',
           upload_success: 'Upload succeeded.',
           select_or_paste_first: 'Select a file or paste text first.',
           files: 'Files',
@@ -925,6 +1940,9 @@ function htmlPage(): string {
           copy_short_link: 'Copy short link',
           delete_file: 'Delete file',
           delete_file_confirm: 'Delete this file?',
+          download_selected: 'Download selected',
+          select_all: 'Select all files',
+          select_file: 'Select file',
           file_deleted: 'File deleted.',
           link_copied: 'Link copied.',
           clipboard_denied: 'Clipboard permission denied.',
@@ -964,6 +1982,8 @@ function htmlPage(): string {
           system_information: 'System Information',
           picoshare_usage: 'PicoShare Usage',
           upload_data: 'Upload data',
+          stored_data: 'Stored after deduplication',
+          unique_blobs: 'Unique blobs',
           guest_links_count: 'Guest links',
           total_downloads: 'Total downloads',
           version: 'Version',
@@ -972,6 +1992,17 @@ function htmlPage(): string {
           store_files_forever: 'Store files forever',
           days: 'Days',
           settings_saved: 'Settings saved.',
+          download_links: 'Download Links',
+          require_signed_urls: 'Require signed URLs for all downloads',
+          require_signed_urls_hint: 'Plain /-:id links stop working for visitors; signed-in users can still open them.',
+          signed_link: 'Signed Link',
+          signed_link_desc: 'Create a link that stops working after a set time, without changing the file expiration.',
+          valid_for_hours: 'Valid for (hours)',
+          max_uses: 'Max downloads',
+          bound_ip: 'Only for IP address',
+          any_ip: 'Any IP address',
+          create_signed_link: 'Create Link',
+          signed_link_expires: 'Link expires',
           downloads_title: 'Downloads',
           unique_ips_only: 'Unique IPs only',
           download: 'Download',
@@ -990,14 +2021,100 @@ function htmlPage(): string {
           you: 'You',
           unknown_file: 'Unknown file',
           not_available: 'N/A',
+          guest: 'Guest',
+          shared_secret_admin: 'admin (shared secret)',
+          users: 'Users',
+          create_user: 'Create user',
+          password: 'Password',
+          password_placeholder: 'At least 8 characters',
+          role: 'Role',
+          role_admin: 'Admin',
+          role_uploader: 'Uploader',
+          role_viewer: 'Viewer',
+          user_created: 'User created.',
+          user_updated: 'User updated.',
+          user_deleted: 'User deleted.',
+          delete_user: 'Delete user',
+          delete_user_confirm: 'Delete this user?',
+          reset_password: 'Reset password',
+          new_password_prompt: 'New password (at least 8 characters)',
+          signed_in_as: 'Signed in as',
+          sessions: 'Sessions',
+          sessions_desc: 'Active sign-ins. Revoking a session signs that browser out immediately.',
+          user: 'User',
+          last_seen: 'Last seen',
+          ip_address: 'IP address',
+          current_session: 'This session',
+          revoke: 'Revoke',
+          revoke_session_confirm: 'Revoke this session?',
+          session_revoked: 'Session revoked.',
+          no_sessions: 'No active sessions',
+          api_tokens: 'API Tokens',
+          api_tokens_desc: 'Tokens let scripts and CI jobs call the API with limited scopes. Send them as "Authorization: Bearer <token>".',
+          create_token: 'Create token',
+          token_name: 'Name',
+          token_name_placeholder: 'e.g. CI artifact upload',
+          scopes: 'Scopes',
+          last_used: 'Last used',
+          token_created: 'Token created. Copy it now, it will not be shown again.',
+          token_revoked: 'Token revoked.',
+          revoke_token_confirm: 'Revoke this token? Scripts using it will stop working.',
+          select_scope_first: 'Select at least one scope.',
+          no_tokens: 'No API tokens yet',
+          token_copied: 'Token copied.',
+          two_factor: 'Two-Factor Auth',
+          two_factor_desc: 'Require a code from an authenticator app in addition to your password when signing in. Scripts using the shared secret or Basic auth must then send the current code in the X-PicoShare-OTP header.',
+          otp_code: 'Authentication code',
+          otp_placeholder: '6-digit code or recovery code',
+          otp_required: 'Enter the code from your authenticator app.',
+          two_factor_enabled: 'Two-factor authentication is enabled.',
+          two_factor_disabled: 'Two-factor authentication is not enabled.',
+          recovery_codes_remaining: 'Recovery codes remaining',
+          begin_setup: 'Set Up',
+          scan_qr: 'Scan this QR code with your authenticator app, or enter the secret manually, then confirm with a code.',
+          secret_key: 'Secret key',
+          enable: 'Enable',
+          disable: 'Disable',
+          regenerate_recovery_codes: 'New Recovery Codes',
+          recovery_codes_desc: 'Store these recovery codes somewhere safe. Each can be used once in place of a code and they will not be shown again.',
+          two_factor_off: 'Two-factor authentication disabled.',
+          recovery_codes_copied: 'Recovery codes copied.',
+          too_many_attempts: 'Too many failed attempts. Try again in {minutes} min.',
+          lockouts: 'Blocked Logins',
+          lockouts_desc: 'IP addresses and targets (accounts, clipboards or files) currently locked out after repeated failed password attempts. Each further failure doubles the lockout.',
+          lockout_kind: 'Type',
+          lockout_subject: 'IP / Target',
+          failures: 'Failures',
+          locked_until: 'Locked Until',
+          lockout_ip: 'IP',
+          lockout_target: 'Target',
+          unblock: 'Unblock',
+          unblocked: 'Lockout cleared.',
+          no_lockouts: 'Nothing is blocked',
+          pending_uploads: 'Pending Uploads',
+          pending_uploads_desc: 'Large uploads that were started but not finished. Resume one by picking the same file again, either here or in the upload form.',
+          upload_progress: 'Received',
+          upload_method: 'Method',
+          browser_upload: 'Browser',
+          streamed_upload: 'Streamed',
+          started: 'Started',
+          resume: 'Resume',
+          abort_upload: 'Abort',
+          abort_upload_confirm: 'Abort this upload and discard the parts received so far?',
+          upload_aborted: 'Upload aborted.',
+          resume_mismatch: 'That file does not match this upload.',
+          resuming_upload: 'Resuming an earlier upload of this file: {done}/{total} parts already sent.',
+          no_pending_uploads: 'No uploads in progress',
         },
         zh: {
           login_title: '欢迎回来',
           login_subtitle: '登录后继续使用',
           passphrase: '访问口令',
           passphrase_placeholder: '请输入访问口令',
+          username: '用户名',
+          username_placeholder: '留空则使用共享密钥登录',
           sign_in: '登录',
-          login_help: '认证使用 Worker 配置的共享密钥。',
+          login_help: '使用账号登录，或将用户名留空以使用共享密钥。',
           nav_upload: '上传',
           nav_files: '文件',
           nav_clips: '云便签',
@@ -1029,6 +2146,48 @@ function htmlPage(): string {
           note_optional: '备注（可选）',
           note_placeholder: '例如：给某同事',
           note_only_you: '备注仅自己可见',
+          file_password: '下载密码',
+          file_password_optional: '下载密码（可选）',
+          alias: '自定义链接名',
+          alias_optional: '自定义链接名（可选）',
+          alias_placeholder: 'release-notes-v2',
+          alias_hint: '可使用字母、数字、- 和 _。原随机链接仍然可用。',
+          file_password_placeholder: '访问者需输入该密码才能下载',
+          file_password_keep: '留空则保持当前密码',
+          remove_file_password: '移除密码',
+          password_protected: '已设置密码',
+          download_limit: '下载次数上限',
+          landing_page_link: '包含文件信息、预览和下载按钮的落地页。',
+          share_link_mode: '复制的链接打开',
+          link_id_length: '链接 ID',
+          file_link_id_length: '文件链接长度',
+          guest_link_id_length: '访客链接长度',
+          link_id_length_hint: '仅对新链接生效（8-32 个字符）。链接越长越难被猜到。',
+          uploads_section: '上传',
+          max_upload_mb: '最大上传大小（MB）',
+          max_upload_mb_hint: '0 表示不限制。仅对登录用户的上传生效，访客链接使用各自的限制。',
+          stale_upload_hours: '未完成上传的中止时间（小时）',
+          stale_upload_hours_hint: '超过此时长仍未完成的分片上传会被中止并删除已上传的分片（1-720）。',
+          stale_uploads: '过期未完成上传',
+          stale_uploads_desc: '开始超过 {hours} 小时仍未完成的分片上传，系统会自动中止。',
+          parts: '个分片',
+          abort_stale_uploads: '中止全部过期上传',
+          abort_stale_uploads_confirm: '中止所有过期上传并删除已接收的分片？',
+          stale_uploads_aborted: '已中止 {count} 个过期上传。',
+          no_stale_uploads: '暂无过期未完成上传。',
+          choose_folder: '选择文件夹',
+          files_selected: '{count} 个文件',
+          alias_single_file: '只有上传单个文件时才能设置别名。',
+          upload_queued: '等待中',
+          upload_done: '完成',
+          upload_part_status: '分片 {part}/{total}',
+          batch_upload_partial: '{total} 个文件中有 {failed} 个上传失败，再次提交可重试。',
+          relative_path: '文件夹路径',
+          share_link_raw: '文件本身',
+          share_link_landing: '包含文件信息和下载按钮的落地页',
+          download_link_hint: '强制下载而不是在浏览器中打开。追加 &as=文件名 可修改保存的文件名。',
+          burn_after_reading: '阅后即焚（首次下载后删除）',
+          downloads_used: '已用',
           upload_success: '上传成功。',
           select_or_paste_first: '请先选择文件或粘贴内容。',
           files: '文件',
@@ -1044,6 +2203,9 @@ function htmlPage(): string {
           copy_short_link: '复制短链接',
           delete_file: '删除文件',
           delete_file_confirm: '确认删除这个文件吗？',
+          download_selected: '下载所选',
+          select_all: '全选文件',
+          select_file: '选择文件',
           file_deleted: '文件已删除。',
           link_copied: '链接已复制。',
           clipboard_denied: '无法访问剪贴板权限。',
@@ -1083,6 +2245,8 @@ function htmlPage(): string {
           system_information: '系统信息',
           picoshare_usage: 'PicoShare 使用情况',
           upload_data: '上传数据',
+          stored_data: '去重后实际存储',
+          unique_blobs: '唯一数据块',
           guest_links_count: '访客链接数量',
           total_downloads: '总下载次数',
           version: '版本',
@@ -1091,6 +2255,17 @@ function htmlPage(): string {
           store_files_forever: '永久保存文件',
           days: '天',
           settings_saved: '设置已保存。',
+          download_links: '下载链接',
+          require_signed_urls: '所有下载都必须使用签名链接',
+          require_signed_urls_hint: '访客将无法使用普通 /-:id 链接；已登录用户仍可打开。',
+          signed_link: '签名链接',
+          signed_link_desc: '创建一个到期后失效的链接，不会改变文件本身的过期时间。',
+          valid_for_hours: '有效期（小时）',
+          max_uses: '最多下载次数',
+          bound_ip: '仅限 IP 地址',
+          any_ip: '任意 IP 地址',
+          create_signed_link: '创建链接',
+          signed_link_expires: '链接过期时间',
           downloads_title: '下载记录',
           unique_ips_only: '仅显示唯一 IP',
           download: '序号',
@@ -1109,6 +2284,90 @@ function htmlPage(): string {
           you: '你',
           unknown_file: '未知文件',
           not_available: '不可用',
+          guest: '访客',
+          shared_secret_admin: 'admin（共享密钥）',
+          users: '用户',
+          create_user: '创建用户',
+          password: '密码',
+          password_placeholder: '至少 8 个字符',
+          role: '角色',
+          role_admin: '管理员',
+          role_uploader: '上传者',
+          role_viewer: '只读',
+          user_created: '用户已创建。',
+          user_updated: '用户已更新。',
+          user_deleted: '用户已删除。',
+          delete_user: '删除用户',
+          delete_user_confirm: '确认删除这个用户吗？',
+          reset_password: '重置密码',
+          new_password_prompt: '新密码（至少 8 个字符）',
+          signed_in_as: '当前用户',
+          sessions: '会话',
+          sessions_desc: '当前有效的登录。撤销会话后，对应浏览器会立即退出登录。',
+          user: '用户',
+          last_seen: '最近活动',
+          ip_address: 'IP 地址',
+          current_session: '当前会话',
+          revoke: '撤销',
+          revoke_session_confirm: '确认撤销这个会话吗？',
+          session_revoked: '会话已撤销。',
+          no_sessions: '暂无有效会话',
+          api_tokens: 'API 令牌',
+          api_tokens_desc: '令牌用于脚本和 CI 任务以受限权限调用 API，请以 "Authorization: Bearer <token>" 方式发送。',
+          create_token: '创建令牌',
+          token_name: '名称',
+          token_name_placeholder: '例如：CI 构建产物上传',
+          scopes: '权限范围',
+          last_used: '最近使用',
+          token_created: '令牌已创建，请立即复制，之后将不再显示。',
+          token_revoked: '令牌已撤销。',
+          revoke_token_confirm: '确认撤销这个令牌吗？使用它的脚本将无法继续调用。',
+          select_scope_first: '请至少选择一个权限范围。',
+          no_tokens: '暂无 API 令牌',
+          token_copied: '令牌已复制。',
+          two_factor: '两步验证',
+          two_factor_desc: '登录时除密码外还需输入身份验证器应用中的验证码。启用后，使用共享密钥或 Basic 认证的脚本需在 X-PicoShare-OTP 请求头中携带当前验证码。',
+          otp_code: '验证码',
+          otp_placeholder: '6 位验证码或恢复码',
+          otp_required: '请输入身份验证器应用中的验证码。',
+          two_factor_enabled: '两步验证已启用。',
+          two_factor_disabled: '两步验证未启用。',
+          recovery_codes_remaining: '剩余恢复码',
+          begin_setup: '开始设置',
+          scan_qr: '使用身份验证器应用扫描二维码，或手动输入密钥，然后输入验证码确认。',
+          secret_key: '密钥',
+          enable: '启用',
+          disable: '停用',
+          regenerate_recovery_codes: '重新生成恢复码',
+          recovery_codes_desc: '请妥善保存这些恢复码。每个恢复码可代替验证码使用一次，且之后不会再次显示。',
+          two_factor_off: '两步验证已停用。',
+          recovery_codes_copied: '恢复码已复制。',
+          too_many_attempts: '失败次数过多，请在 {minutes} 分钟后重试。',
+          lockouts: '登录封禁',
+          lockouts_desc: '因多次密码错误而被暂时封禁的 IP 地址和目标（账号、便签或文件）。每次继续失败都会使封禁时间翻倍。',
+          lockout_kind: '类型',
+          lockout_subject: 'IP / 目标',
+          failures: '失败次数',
+          locked_until: '封禁至',
+          lockout_ip: 'IP',
+          lockout_target: '目标',
+          unblock: '解除封禁',
+          unblocked: '封禁已解除。',
+          no_lockouts: '暂无封禁',
+          pending_uploads: '未完成上传',
+          pending_uploads_desc: '已开始但尚未完成的大文件上传。在此处或上传表单中重新选择同一文件即可继续上传。',
+          upload_progress: '已接收',
+          upload_method: '方式',
+          browser_upload: '浏览器',
+          streamed_upload: '流式',
+          started: '开始时间',
+          resume: '继续',
+          abort_upload: '中止',
+          abort_upload_confirm: '中止此上传并丢弃已接收的分片？',
+          upload_aborted: '上传已中止。',
+          resume_mismatch: '所选文件与此上传不匹配。',
+          resuming_upload: '继续此文件之前的上传：已发送 {done}/{total} 个分片。',
+          no_pending_uploads: '暂无进行中的上传',
         },
       };
 
@@ -1123,6 +2382,9 @@ function htmlPage(): string {
       var flashEl = document.getElementById('flash');
       var flashTimer = null;
       var pwEl = document.getElementById('pw');
+      var usernameEl = document.getElementById('username');
+      var otpEl = document.getElementById('otp');
+      var otpRow = document.getElementById('otp-row');
       var loginBtn = document.getElementById('login-btn');
       var systemToggle = document.getElementById('system-toggle');
       var systemMenu = document.getElementById('system-menu');
@@ -1141,8 +2403,12 @@ function htmlPage(): string {
         document.documentElement.lang = state.lang === 'zh' ? 'zh-CN' : 'en';
         document.getElementById('login-title').textContent = t('login_title');
         document.getElementById('login-subtitle').textContent = t('login_subtitle');
+        document.getElementById('username-label').textContent = t('username');
+        usernameEl.setAttribute('placeholder', t('username_placeholder'));
         document.getElementById('pw-label').textContent = t('passphrase');
         pwEl.setAttribute('placeholder', t('passphrase_placeholder'));
+        document.getElementById('otp-label').textContent = t('otp_code');
+        otpEl.setAttribute('placeholder', t('otp_placeholder'));
         loginBtn.textContent = t('sign_in');
         document.getElementById('login-help').textContent = t('login_help');
         document.getElementById('nav-upload-text').textContent = t('nav_upload');
@@ -1152,6 +2418,12 @@ function htmlPage(): string {
         systemToggle.textContent = t('system') + ' ▾';
         document.getElementById('menu-system-info').textContent = t('system_info');
         document.getElementById('menu-settings').textContent = t('settings');
+        document.getElementById('menu-users').textContent = t('users');
+        document.getElementById('menu-sessions').textContent = t('sessions');
+        document.getElementById('menu-tokens').textContent = t('api_tokens');
+        document.getElementById('menu-2fa').textContent = t('two_factor');
+        document.getElementById('menu-lockouts').textContent = t('lockouts');
+        document.getElementById('menu-uploads').textContent = t('pending_uploads');
         document.getElementById('logout-btn').textContent = t('logout');
         document.getElementById('confirm-title').textContent = t('confirm_action');
         document.getElementById('confirm-text').textContent = t('are_you_sure');
@@ -1220,6 +2492,11 @@ function htmlPage(): string {
         });
       }
 
+      function shareLink(id) {
+        var prefix = state.settings.shareLinkMode === 'landing' ? '/s/' : '/-';
+        return location.origin + prefix + encodeURIComponent(id);
+      }
+
       function formatSize(bytes) {
         var n = Number(bytes || 0);
         if (!Number.isFinite(n) || n <= 0) return '0 B';
@@ -1334,18 +2611,12 @@ function htmlPage(): string {
         movePreview(evt);
       }
 
-      function authHeaders(extra) {
-        var h = Object.assign({}, extra || {});
-        h.Authorization = state.pw;
-        return h;
-      }
-
       async function api(path, options) {
         var res = await fetch(path, Object.assign({}, options || {}, {
-          headers: authHeaders((options && options.headers) || {}),
+          headers: Object.assign({}, (options && options.headers) || {}),
         }));
         if (res.status === 401) {
-          logout();
+          showLogin(t('session_expired'));
           throw new Error('Unauthorized');
         }
         if (!res.ok) {
@@ -1357,70 +2628,175 @@ function htmlPage(): string {
         return res.text();
       }
 
-      async function multipartUploadFile(file, noteValue, expirationDays) {
-        var init = await api('/api/entry/multipart/init', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            filename: file.name || 'upload.bin',
-            contentType: file.type || 'application/octet-stream',
-            size: Number(file.size || 0),
-            note: noteValue || '',
-            expirationDays: expirationDays,
-          }),
-        });
-        var uploadId = init && init.uploadId ? String(init.uploadId) : '';
-        var chunkSize = Number(init && init.chunkSize ? init.chunkSize : 0) || (8 * 1024 * 1024);
-        if (!uploadId) throw new Error('multipart init failed');
+      function appendUploadOptions(fd, options) {
+        fd.append('note', options.note || '');
+        fd.append('expirationDays', options.expirationDays);
+        if (options.password) fd.append('password', options.password);
+        if (options.maxDownloads) fd.append('maxDownloads', String(options.maxDownloads));
+        if (options.alias) fd.append('alias', options.alias);
+      }
 
-        var total = Number(file.size || 0);
-        var partCount = Math.max(1, Math.ceil(total / chunkSize));
-        try {
-          for (var i = 0; i < partCount; i += 1) {
-            var start = i * chunkSize;
-            var end = Math.min(total, start + chunkSize);
-            var chunk = file.slice(start, end);
-            var partNumber = i + 1;
-            setBusy(true, t('uploading_wait') + ' ' + partNumber + '/' + partCount);
-            var res = await fetch('/api/entry/multipart/part/' + encodeURIComponent(uploadId) + '/' + String(partNumber), {
-              method: 'PUT',
-              headers: authHeaders({ 'Content-Type': 'application/octet-stream' }),
-              body: chunk,
-            });
-            if (res.status === 401) {
-              logout();
-              throw new Error('Unauthorized');
-            }
-            if (!res.ok) {
-              var errText = await res.text();
-              throw new Error(errText || ('Chunk upload failed: ' + res.status));
-            }
-          }
-          return await api('/api/entry/multipart/complete', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ uploadId: uploadId }),
-          });
-        } catch (err) {
-          try {
-            await api('/api/entry/multipart/abort', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ uploadId: uploadId }),
-            });
-          } catch (_) {
-            // Ignore abort errors and bubble up the original upload error.
-          }
-          throw err;
+      // Number input plus a "burn after reading" shortcut that pins the limit to one download.
+      function createDownloadLimitField(idPrefix, current) {
+        var input = el('input', { id: idPrefix + '-max-downloads', type: 'number', min: '1', placeholder: t('unlimited') });
+        var burn = el('input', { id: idPrefix + '-burn', type: 'checkbox' });
+        if (current === 1) burn.checked = true;
+        else if (current) input.value = String(current);
+        function sync() {
+          input.disabled = burn.checked;
+          if (burn.checked) input.value = '';
         }
+        burn.addEventListener('change', sync);
+        sync();
+        var wrap = el('div', {}, [
+          el('label', { for: idPrefix + '-max-downloads', text: t('download_limit') }),
+          input,
+          el('div', { class: 'check-row' }, [burn, el('label', { for: idPrefix + '-burn', text: t('burn_after_reading') })]),
+        ]);
+        return {
+          node: wrap,
+          value: function() {
+            if (burn.checked) return 1;
+            var n = Number(input.value || 0);
+            return n > 0 ? Math.floor(n) : null;
+          },
+          reset: function() {
+            burn.checked = false;
+            input.value = '';
+            sync();
+          },
+        };
       }
 
-      async function directUploadFile(file, noteValue, expirationDays) {
-        var fd = new FormData();
-        fd.append('file', file);
-        fd.append('note', noteValue || '');
-        fd.append('expirationDays', expirationDays);
-        return await api('/api/entry', { method: 'POST', body: fd });
+      function bytesToHex(buffer) {
+        return Array.from(new Uint8Array(buffer)).map(function(b) { return b.toString(16).padStart(2, '0'); }).join('');
+      }
+
+      // Recognises the same file after a reload without reading all of it: size, mtime and the first and last MiB.
+      async function fileFingerprint(file) {
+        var size = Number(file.size || 0);
+        var modified = Number(file.lastModified || 0);
+        if (!window.crypto || !crypto.subtle) return 'v0:' + size + ':' + modified;
+        var sample = 1024 * 1024;
+        var blob = new Blob([size + ':' + modified + ':', file.slice(0, sample), file.slice(Math.max(sample, size - sample), size)]);
+        return bytesToHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+      }
+
+      function pendingUploadMatches(row, file, fingerprint) {
+        return !row.tus &&
+          !row.server_streamed &&
+          row.filename === String(file.name || 'upload.bin').trim().slice(0, 255) &&
+          Number(row.size) === Number(file.size || 0) &&
+          row.fingerprint === fingerprint;
+      }
+
+      async function findPendingUpload(file, fingerprint) {
+        var pending = await api('/api/entry/multipart/uploads');
+        return pending.filter(function(row) {
+          return canModify(row) && pendingUploadMatches(row, file, fingerprint);
+        })[0] || null;
+      }
+
+      async function multipartUploadFile(file, options, pending) {
+        var fingerprint = await fileFingerprint(file);
+        var uploadId = '';
+        var chunkSize = 0;
+        var sent = {};
+        // Picking the same file again on the upload form continues the earlier upload and finishes it with the
+        // form's current options; Resume in Pending Uploads passes the row and keeps the options it started with.
+        var resumedFromForm = false;
+        if (!pending) {
+          pending = await findPendingUpload(file, fingerprint);
+          resumedFromForm = Boolean(pending);
+        }
+        if (pending) {
+          var listing = await api('/api/entry/multipart/parts/' + encodeURIComponent(pending.upload_id));
+          uploadId = String(listing.uploadId);
+          chunkSize = Number(listing.chunkSize || 0) || (8 * 1024 * 1024);
+          (listing.parts || []).forEach(function(part) { sent[part.partNumber] = true; });
+        } else {
+          var init = await api('/api/entry/multipart/init', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              filename: file.name || 'upload.bin',
+              contentType: file.type || 'application/octet-stream',
+              size: Number(file.size || 0),
+              note: options.note || '',
+              expirationDays: options.expirationDays,
+              password: options.password || undefined,
+              maxDownloads: options.maxDownloads || undefined,
+              alias: options.alias || undefined,
+              fingerprint: fingerprint,
+              relativePath: options.relativePath || undefined,
+            }),
+          });
+          uploadId = init && init.uploadId ? String(init.uploadId) : '';
+          chunkSize = Number(init && init.chunkSize ? init.chunkSize : 0) || (8 * 1024 * 1024);
+        }
+        if (!uploadId) throw new Error('multipart init failed');
+
+        var total = Number(file.size || 0);
+        var partCount = Math.max(1, Math.ceil(total / chunkSize));
+        var alreadySent = Object.keys(sent).length;
+        if (alreadySent) {
+          setFlash(t('resuming_upload').replace('{done}', String(alreadySent)).replace('{total}', String(partCount)), false);
+        }
+        // Batch uploads report progress on their own row instead of the busy overlay.
+        var onProgress = options.onProgress || function(part, count) {
+          setBusy(true, t('uploading_wait') + ' ' + part + '/' + count);
+        };
+        // A failed upload is left in place so that picking the same file again resumes it; Pending Uploads can abort it.
+        for (var i = 0; i < partCount; i += 1) {
+          var partNumber = i + 1;
+          if (sent[partNumber]) continue;
+          var start = i * chunkSize;
+          var end = Math.min(total, start + chunkSize);
+          var chunk = file.slice(start, end);
+          onProgress(partNumber, partCount);
+          var res = await fetch('/api/entry/multipart/part/' + encodeURIComponent(uploadId) + '/' + String(partNumber), {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/octet-stream' },
+            body: chunk,
+          });
+          if (res.status === 401) {
+            showLogin(t('session_expired'));
+            throw new Error('Unauthorized');
+          }
+          if (!res.ok) {
+            var errText = await res.text();
+            throw new Error(errText || ('Chunk upload failed: ' + res.status));
+          }
+        }
+        var complete = { uploadId: uploadId };
+        if (resumedFromForm) {
+          complete.options = {
+            note: options.note || '',
+            expirationDays: options.expirationDays,
+            password: options.password || undefined,
+            maxDownloads: options.maxDownloads || undefined,
+            alias: options.alias || undefined,
+          };
+        }
+        return await api('/api/entry/multipart/complete', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(complete),
+        });
+      }
+
+      // Sends the file as the raw request body so the Worker can stream it to storage instead of buffering it.
+      async function directUploadFile(file, options) {
+        var params = new URLSearchParams();
+        params.set('filename', file.name || 'upload.bin');
+        params.set('note', options.note || '');
+        params.set('expirationDays', options.expirationDays);
+        if (options.maxDownloads) params.set('maxDownloads', String(options.maxDownloads));
+        if (options.alias) params.set('alias', options.alias);
+        if (options.relativePath) params.set('relativePath', options.relativePath);
+        var headers = { 'Content-Type': file.type || 'application/octet-stream' };
+        if (options.password) headers['X-Entry-Password'] = options.password;
+        return await api('/api/entry/stream?' + params.toString(), { method: 'POST', headers: headers, body: file });
       }
 
       function el(tag, attrs, children) {
@@ -1460,14 +2836,39 @@ function htmlPage(): string {
       }
 
       async function login() {
-        state.pw = (pwEl.value || state.pw || '').trim();
-        if (!state.pw) {
+        var username = (usernameEl.value || '').trim();
+        var password = (pwEl.value || '').trim();
+        if (!password) {
           setFlash(t('please_enter_passphrase'), true);
           return;
         }
+        var code = (otpEl.value || '').trim();
         try {
-          await api('/api/entries');
-          localStorage.setItem('ps_pw', state.pw);
+          var res = await fetch('/api/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ username: username, password: password, code: code || undefined }),
+          });
+          if (res.status === 429) {
+            var wait = Number(res.headers.get('Retry-After') || 0);
+            setFlash(t('too_many_attempts').replace('{minutes}', String(Math.max(1, Math.ceil(wait / 60)))), true);
+            return;
+          }
+          if (!res.ok) {
+            var failure = await res.json().catch(function() { return {}; });
+            if (failure.totpRequired) {
+              var firstPrompt = otpRow.classList.contains('hidden');
+              otpRow.classList.remove('hidden');
+              otpEl.value = '';
+              otpEl.focus();
+              setFlash(firstPrompt ? t('otp_required') : t('auth_failed'), !firstPrompt);
+              return;
+            }
+            throw new Error('Unauthorized');
+          }
+          pwEl.value = '';
+          otpEl.value = '';
+          otpRow.classList.add('hidden');
           setFlash('', false);
           loginEl.classList.add('hidden');
           appEl.classList.remove('hidden');
@@ -1478,24 +2879,73 @@ function htmlPage(): string {
         }
       }
 
-      function logout() {
-        localStorage.removeItem('ps_pw');
-        state.pw = '';
+      function showLogin(message) {
+        state.me = null;
         state.selectedId = null;
         state.view = 'upload';
         closeSystemMenu();
+        otpEl.value = '';
+        otpRow.classList.add('hidden');
         appEl.classList.add('hidden');
         loginEl.classList.remove('hidden');
+        if (message) setFlash(message, true);
+      }
+
+      async function logout() {
+        try {
+          await fetch('/api/logout', { method: 'POST' });
+        } catch (_) {
+          // Leave the app locally even if the server could not be reached.
+        }
+        showLogin('');
         setFlash(t('logged_out'), false);
       }
 
+      var roleRank = { viewer: 0, uploader: 1, admin: 2 };
+
+      function hasRole(required) {
+        if (!state.me) return false;
+        return (roleRank[state.me.role] || 0) >= roleRank[required];
+      }
+
+      function canModify(row) {
+        if (hasRole('admin')) return true;
+        return hasRole('uploader') && !!state.me.userId && row.created_by === state.me.userId;
+      }
+
+      function applyRoleVisibility() {
+        document.querySelectorAll('.nav [data-view="upload"], .nav [data-view="guestLinks"]').forEach(function(btn) {
+          btn.classList.toggle('hidden', !hasRole('uploader'));
+        });
+        document.getElementById('menu-settings').classList.toggle('hidden', !hasRole('admin'));
+        document.getElementById('menu-users').classList.toggle('hidden', !hasRole('admin'));
+        document.getElementById('menu-sessions').classList.toggle('hidden', !state.me);
+        document.getElementById('menu-tokens').classList.toggle('hidden', !hasRole('admin'));
+        document.getElementById('menu-2fa').classList.toggle('hidden', !state.me);
+        document.getElementById('menu-lockouts').classList.toggle('hidden', !hasRole('admin'));
+        document.getElementById('menu-uploads').classList.toggle('hidden', !hasRole('uploader'));
+        if (!hasRole('uploader') && (state.view === 'upload' || state.view === 'guestLinks')) state.view = 'files';
+      }
+
       async function loadInitialData() {
-        var loaded = await Promise.all([api('/api/entries'), api('/api/guest-links'), api('/api/settings')]);
+        state.me = await api('/api/me');
+        applyRoleVisibility();
+        var loaded = await Promise.all([
+          api('/api/entries'),
+          hasRole('uploader') ? api('/api/guest-links') : Promise.resolve([]),
+          api('/api/settings'),
+        ]);
         state.files = loaded[0];
         state.guestLinks = loaded[1];
         state.settings = {
           storeForever: !!loaded[2].storeForever,
           defaultDays: Number(loaded[2].defaultDays || 30),
+          requireSignedUrls: !!loaded[2].requireSignedUrls,
+          shareLinkMode: loaded[2].shareLinkMode === 'landing' ? 'landing' : 'raw',
+          entryIdLength: Number(loaded[2].entryIdLength || 10),
+          guestLinkIdLength: Number(loaded[2].guestLinkIdLength || 10),
+          maxUploadBytes: Number(loaded[2].maxUploadBytes || 0),
+          staleUploadHours: Number(loaded[2].staleUploadHours || 24),
         };
       }
 
@@ -1510,22 +2960,83 @@ function htmlPage(): string {
       function createUploadView() {
         var form = el('form', { class: 'upload-grid' });
 
-        var fileInput = el('input', { type: 'file', id: 'upload-file', 'aria-label': 'Choose file', class: 'hidden' });
+        var fileInput = el('input', { type: 'file', id: 'upload-file', multiple: 'multiple', 'aria-label': 'Choose files', class: 'hidden' });
+        var folderInput = el('input', { type: 'file', id: 'upload-folder', multiple: 'multiple', webkitdirectory: '', 'aria-label': 'Choose folder', class: 'hidden' });
         var dropFileName = el('div', { class: 'drop-file', text: t('no_file_selected') });
         var drop = el('button', { type: 'button', class: 'drop', onclick: function() { fileInput.click(); } }, [
           el('div', { class: 'drop-primary', text: t('drop_choose') }),
           el('div', { class: 'drop-secondary', text: t('supports_drag') }),
           dropFileName,
         ]);
-        var selectedFile = null;
+        var folderButton = el('button', { type: 'button', class: 'btn secondary small', text: t('choose_folder'), onclick: function() { folderInput.click(); } });
+        var queue = el('div', { class: 'upload-queue hidden' });
+        // Each item is { file, path, row }; path is the file's place inside a chosen or dropped folder, '' otherwise.
+        var selectedFiles = [];
+
+        function updateSelectionLabel() {
+          if (!selectedFiles.length) {
+            dropFileName.textContent = t('no_file_selected');
+          } else if (selectedFiles.length === 1) {
+            dropFileName.textContent = t('selected_prefix') + ': ' + (selectedFiles[0].path || selectedFiles[0].file.name);
+          } else {
+            var total = selectedFiles.reduce(function(sum, item) { return sum + Number(item.file.size || 0); }, 0);
+            dropFileName.textContent = t('selected_prefix') + ': ' +
+              t('files_selected').replace('{count}', String(selectedFiles.length)) + ' (' + formatSize(total) + ')';
+          }
+        }
+
+        function setSelectedFiles(items) {
+          selectedFiles = items || [];
+          updateSelectionLabel();
+          queue.innerHTML = '';
+          selectedFiles.forEach(function(item) {
+            var name = item.path || item.file.name;
+            item.row = {
+              node: el('div', { class: 'upload-queue-row' }),
+              bar: el('progress', { max: '1', value: '0' }),
+              status: el('span', { class: 'upload-queue-status', text: formatSize(item.file.size) }),
+            };
+            item.row.node.appendChild(el('span', { class: 'upload-queue-name', text: name, title: name }));
+            item.row.node.appendChild(item.row.bar);
+            item.row.node.appendChild(item.row.status);
+            queue.appendChild(item.row.node);
+          });
+          queue.classList.toggle('hidden', selectedFiles.length < 2);
+        }
+
+        function filesFromInput(input) {
+          return Array.prototype.map.call(input.files || [], function(file) {
+            return { file: file, path: file.webkitRelativePath || '' };
+          });
+        }
+
+        function readDirectoryBatch(reader) {
+          return new Promise(function(resolve, reject) { reader.readEntries(resolve, reject); });
+        }
 
-        function setSelectedFile(file) {
-          selectedFile = file || null;
-          dropFileName.textContent = selectedFile ? (t('selected_prefix') + ': ' + selectedFile.name) : t('no_file_selected');
+        // readEntries hands back a directory in batches and an empty batch once it is exhausted.
+        async function collectDroppedEntry(entry, prefix, out) {
+          if (entry.isFile) {
+            var file = await new Promise(function(resolve, reject) { entry.file(resolve, reject); });
+            out.push({ file: file, path: prefix ? prefix + file.name : '' });
+            return;
+          }
+          if (!entry.isDirectory) return;
+          var reader = entry.createReader();
+          var batch = await readDirectoryBatch(reader);
+          while (batch.length) {
+            for (var i = 0; i < batch.length; i += 1) {
+              await collectDroppedEntry(batch[i], prefix + entry.name + '/', out);
+            }
+            batch = await readDirectoryBatch(reader);
+          }
         }
 
         fileInput.addEventListener('change', function() {
-          setSelectedFile(fileInput.files && fileInput.files[0] ? fileInput.files[0] : null);
+          setSelectedFiles(filesFromInput(fileInput));
+        });
+        folderInput.addEventListener('change', function() {
+          setSelectedFiles(filesFromInput(folderInput));
         });
 
         ['dragenter', 'dragover'].forEach(function(type) {
@@ -1543,10 +3054,26 @@ function htmlPage(): string {
         drop.addEventListener('drop', function(evt) {
           evt.preventDefault();
           drop.classList.remove('dragover');
-          var files = evt.dataTransfer && evt.dataTransfer.files;
-          if (files && files.length > 0) {
-            setSelectedFile(files[0]);
+          var transfer = evt.dataTransfer;
+          if (!transfer) return;
+          // Entries have to be taken from the items list before the first await; it is emptied once the handler yields.
+          var entries = Array.prototype.map.call(transfer.items || [], function(item) {
+            return item.kind === 'file' && item.webkitGetAsEntry ? item.webkitGetAsEntry() : null;
+          }).filter(Boolean);
+          if (!entries.length) {
+            setSelectedFiles(Array.prototype.map.call(transfer.files || [], function(file) { return { file: file, path: '' }; }));
+            return;
           }
+          var collected = [];
+          Promise.all(entries.map(function(entry) {
+            var own = [];
+            collected.push(own);
+            return collectDroppedEntry(entry, '', own);
+          })).then(function() {
+            setSelectedFiles([].concat.apply([], collected));
+          }).catch(function(err) {
+            setFlash(String(err.message || err), true);
+          });
         });
 
         var pasteLabel = el('label', { for: 'paste', text: t('or_paste_here') });
@@ -1568,54 +3095,126 @@ function htmlPage(): string {
         var note = el('input', { id: 'note', type: 'text', placeholder: t('note_placeholder') });
         var hint = el('div', { class: 'small', text: t('note_only_you') });
 
+        var filePasswordLabel = el('label', { for: 'file-password', text: t('file_password_optional') });
+        var filePassword = el('input', { id: 'file-password', type: 'password', autocomplete: 'new-password', maxlength: '128', placeholder: t('file_password_placeholder') });
+        var downloadLimit = createDownloadLimitField('upload', null);
+        var aliasLabel = el('label', { for: 'upload-alias', text: t('alias_optional') });
+        var alias = el('input', { id: 'upload-alias', type: 'text', maxlength: '64', placeholder: t('alias_placeholder') });
+
         form.appendChild(el('h1', { text: t('upload') }));
         form.appendChild(drop);
         form.appendChild(fileInput);
+        form.appendChild(folderInput);
+        form.appendChild(el('div', { class: 'row' }, [folderButton]));
+        form.appendChild(queue);
         form.appendChild(el('div', {}, [pasteLabel, paste]));
         form.appendChild(el('div', {}, [expLabel, expSelect]));
         form.appendChild(el('div', {}, [noteLabel, note, hint]));
-        form.appendChild(
-          el('div', { class: 'submit-row' }, [
-            el('button', { class: 'btn neon form-submit', type: 'submit', text: t('upload') }),
-          ]),
-        );
+        form.appendChild(el('div', {}, [filePasswordLabel, filePassword]));
+        form.appendChild(downloadLimit.node);
+        form.appendChild(el('div', {}, [aliasLabel, alias, el('div', { class: 'small', text: t('alias_hint') })]));
+        var submitButton = el('button', { class: 'btn neon form-submit', type: 'submit', text: t('upload') });
+        form.appendChild(el('div', { class: 'submit-row' }, [submitButton]));
         var isUploading = false;
 
+        // A single file keeps the busy overlay; in a batch each file reports on its own row instead.
+        async function uploadQueuedItem(item, uploadOptions, batch) {
+          var row = item.row;
+          row.node.className = 'upload-queue-row';
+          row.bar.removeAttribute('value');
+          row.status.textContent = t('uploading_wait');
+          var options = Object.assign({}, uploadOptions, { relativePath: item.path });
+          if (batch) {
+            options.onProgress = function(part, count) {
+              row.bar.max = count;
+              row.bar.value = part - 1;
+              row.status.textContent = t('upload_part_status').replace('{part}', String(part)).replace('{total}', String(count));
+            };
+          }
+          if (Number(item.file.size || 0) >= multipartUploadThresholdBytes) {
+            await multipartUploadFile(item.file, options);
+          } else {
+            await directUploadFile(item.file, options);
+          }
+          row.bar.max = 1;
+          row.bar.value = 1;
+          row.node.classList.add('done');
+          row.status.textContent = t('upload_done');
+        }
+
+        // Files go up one at a time; a failure is recorded on its row and the rest of the batch carries on.
+        async function uploadSelectedFiles(uploadOptions) {
+          var batch = selectedFiles.length > 1;
+          selectedFiles.forEach(function(item) { item.row.status.textContent = t('upload_queued'); });
+          var failed = [];
+          for (var i = 0; i < selectedFiles.length; i += 1) {
+            var item = selectedFiles[i];
+            try {
+              await uploadQueuedItem(item, uploadOptions, batch);
+            } catch (err) {
+              if (!batch) throw err;
+              var message = String(err.message || err);
+              item.row.node.classList.add('failed');
+              item.row.bar.value = 0;
+              item.row.status.textContent = message;
+              item.row.status.title = message;
+              failed.push(item);
+            }
+          }
+          return failed;
+        }
+
         form.addEventListener('submit', async function(evt) {
           evt.preventDefault();
           if (isUploading) return;
-          var hasFile = selectedFile || (fileInput.files && fileInput.files[0]);
           var pastedText = paste.value.trim();
-          if (!hasFile && !pastedText) {
+          if (!selectedFiles.length && !pastedText) {
             setFlash(t('select_or_paste_first'), true);
             return;
           }
+          var uploadOptions = {
+            note: note.value.trim(),
+            expirationDays: expSelect.value,
+            password: filePassword.value.trim(),
+            maxDownloads: downloadLimit.value(),
+            alias: alias.value.trim(),
+          };
+          if (selectedFiles.length > 1 && uploadOptions.alias) {
+            setFlash(t('alias_single_file'), true);
+            return;
+          }
 
           isUploading = true;
-          setBusy(true, t('uploading_wait'));
-          var noteValue = note.value.trim();
-          var expirationDaysValue = expSelect.value;
+          submitButton.disabled = true;
+          if (selectedFiles.length < 2) setBusy(true, t('uploading_wait'));
 
           try {
-            if (hasFile) {
-              var fileSize = Number(hasFile.size || 0);
-              if (fileSize >= multipartUploadThresholdBytes) {
-                await multipartUploadFile(hasFile, noteValue, expirationDaysValue);
-              } else {
-                await directUploadFile(hasFile, noteValue, expirationDaysValue);
+            if (selectedFiles.length) {
+              var total = selectedFiles.length;
+              var failed = await uploadSelectedFiles(uploadOptions);
+              if (failed.length) {
+                // Only the failed files stay selected, so submitting again retries just those.
+                selectedFiles = failed;
+                updateSelectionLabel();
+                setFlash(t('batch_upload_partial').replace('{failed}', String(failed.length)).replace('{total}', String(total)), true);
+                await refreshFiles();
+                return;
               }
             } else {
               var fd = new FormData();
               fd.append('pastedText', pastedText);
-              fd.append('note', noteValue);
-              fd.append('expirationDays', expirationDaysValue);
+              appendUploadOptions(fd, uploadOptions);
               await api('/api/entry', { method: 'POST', body: fd });
             }
             setFlash(t('upload_success'), false);
-            setSelectedFile(null);
+            setSelectedFiles([]);
             fileInput.value = '';
+            folderInput.value = '';
             paste.value = '';
             note.value = '';
+            filePassword.value = '';
+            alias.value = '';
+            downloadLimit.reset();
             await refreshFiles();
             state.view = 'files';
             await render();
@@ -1623,6 +3222,7 @@ function htmlPage(): string {
             setFlash(String(err.message || err), true);
           } finally {
             isUploading = false;
+            submitButton.disabled = false;
             setBusy(false);
           }
         });
@@ -1634,10 +3234,37 @@ function htmlPage(): string {
         var root = el('section', { class: 'stack stack-wide' });
         root.appendChild(el('h1', { text: t('files') }));
 
+        var selected = {};
+        var checkboxes = [];
+        var downloadSelected = el('button', {
+          type: 'button', class: 'btn blue small', text: t('download_selected'), disabled: 'disabled', onclick: function() {
+            var ids = Object.keys(selected);
+            if (!ids.length) return;
+            location.href = '/api/entries/zip?ids=' + ids.map(encodeURIComponent).join(',');
+          }
+        });
+        var selectAll = el('input', { type: 'checkbox', 'aria-label': t('select_all') });
+        function syncSelection() {
+          var count = Object.keys(selected).length;
+          downloadSelected.disabled = count === 0;
+          downloadSelected.textContent = count ? t('download_selected') + ' (' + count + ')' : t('download_selected');
+          selectAll.checked = count > 0 && count === checkboxes.length;
+        }
+        selectAll.addEventListener('change', function() {
+          checkboxes.forEach(function(box) {
+            box.checked = selectAll.checked;
+            if (box.checked) selected[box.value] = true;
+            else delete selected[box.value];
+          });
+          syncSelection();
+        });
+        root.appendChild(el('div', { class: 'row' }, [downloadSelected]));
+
         var tableWrap = el('div', { class: 'table-wrap' });
         var table = el('table', { class: 'files-table' });
         var thead = el('thead');
         var headRow = el('tr');
+        headRow.appendChild(el('th', { scope: 'col' }, [selectAll]));
         [t('filename'), t('note'), t('size'), t('uploaded'), t('expires'), t('downloads'), t('actions')].forEach(function(title) {
           headRow.appendChild(el('th', { scope: 'col', text: title }));
         });
@@ -1651,6 +3278,15 @@ function htmlPage(): string {
           tr.addEventListener('mousemove', function(evt) { if (!filePreview.classList.contains('hidden')) movePreview(evt); });
           tr.addEventListener('mouseleave', hidePreview);
 
+          var box = el('input', { type: 'checkbox', value: file.id, 'aria-label': t('select_file') });
+          box.addEventListener('change', function() {
+            if (box.checked) selected[file.id] = true;
+            else delete selected[file.id];
+            syncSelection();
+          });
+          checkboxes.push(box);
+          tr.appendChild(el('td', {}, [box]));
+
           var typeInfo = fileTypeInfo(file);
           var filenameCell = el('td');
           filenameCell.appendChild(
@@ -1661,7 +3297,7 @@ function htmlPage(): string {
                 title: typeInfo.label,
                 'aria-label': typeInfo.label + ' file',
               }),
-              el('span', { class: 'file-name', text: file.filename }),
+              el('span', { class: 'file-name', text: file.filename, title: file.relative_path || undefined }),
             ]),
           );
 
@@ -1695,36 +3331,40 @@ function htmlPage(): string {
               render();
             }
           }));
-          actions.appendChild(el('button', {
-            type: 'button', class: 'btn secondary small', text: '✎', 'aria-label': t('edit_file'), onclick: function() {
-              state.selectedId = file.id;
-              state.view = 'fileEdit';
-              render();
-            }
-          }));
+          if (canModify(file)) {
+            actions.appendChild(el('button', {
+              type: 'button', class: 'btn secondary small', text: '✎', 'aria-label': t('edit_file'), onclick: function() {
+                state.selectedId = file.id;
+                state.view = 'fileEdit';
+                render();
+              }
+            }));
+          }
           actions.appendChild(el('button', {
             type: 'button', class: 'btn blue small', text: '⧉', 'aria-label': t('copy_short_link'), onclick: async function() {
               try {
-                await navigator.clipboard.writeText(location.origin + '/-' + file.id);
+                await navigator.clipboard.writeText(shareLink(file.alias || file.id));
                 setFlash(t('link_copied'), false);
               } catch {
                 setFlash(t('clipboard_denied'), true);
               }
             }
           }));
-          actions.appendChild(el('button', {
-            type: 'button', class: 'btn danger small', text: t('delete'), 'aria-label': t('delete_file'), onclick: async function() {
-              if (!(await confirmAction(t('delete_file_confirm'), t('delete')))) return;
-              try {
-                await api('/api/entry/' + encodeURIComponent(file.id), { method: 'DELETE' });
-                await refreshFiles();
-                setFlash(t('file_deleted'), false);
-                render();
-              } catch (err) {
-                setFlash(String(err.message || err), true);
+          if (canModify(file)) {
+            actions.appendChild(el('button', {
+              type: 'button', class: 'btn danger small', text: t('delete'), 'aria-label': t('delete_file'), onclick: async function() {
+                if (!(await confirmAction(t('delete_file_confirm'), t('delete')))) return;
+                try {
+                  await api('/api/entry/' + encodeURIComponent(file.id), { method: 'DELETE' });
+                  await refreshFiles();
+                  setFlash(t('file_deleted'), false);
+                  render();
+                } catch (err) {
+                  setFlash(String(err.message || err), true);
+                }
               }
-            }
-          }));
+            }));
+          }
           tr.appendChild(actions);
           tbody.appendChild(tr);
         });
@@ -1735,6 +3375,55 @@ function htmlPage(): string {
         return root;
       }
 
+      function createSignedLinkPanel(data) {
+        var form = el('form', { class: 'panel stack' });
+        form.appendChild(el('h3', { text: t('signed_link') }));
+        form.appendChild(el('div', { class: 'small', text: t('signed_link_desc') }));
+        var hours = el('input', { id: 'signed-hours', type: 'number', min: '1', value: '24' });
+        var maxUses = el('input', { id: 'signed-max-uses', type: 'number', min: '1', placeholder: t('unlimited') });
+        var boundIp = el('input', { id: 'signed-ip', type: 'text', placeholder: t('any_ip') });
+        form.appendChild(el('div', {}, [el('label', { for: 'signed-hours', text: t('valid_for_hours') }), hours]));
+        form.appendChild(el('div', {}, [el('label', { for: 'signed-max-uses', text: t('max_uses') }), maxUses]));
+        form.appendChild(el('div', {}, [el('label', { for: 'signed-ip', text: t('bound_ip') }), boundIp]));
+        var result = el('div', { class: 'hidden' });
+        form.appendChild(result);
+        form.appendChild(el('div', { class: 'submit-row' }, [
+          el('button', { type: 'submit', class: 'btn form-submit', text: t('create_signed_link') }),
+        ]));
+        form.addEventListener('submit', async function(evt) {
+          evt.preventDefault();
+          try {
+            var res = await api('/api/entry/' + encodeURIComponent(data.id) + '/signed-url', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                expiresInHours: Number(hours.value || 24),
+                maxUses: maxUses.value ? Number(maxUses.value) : null,
+                ip: boundIp.value.trim() || null,
+              }),
+            });
+            result.innerHTML = '';
+            result.className = 'note-box';
+            result.appendChild(el('div', { text: t('signed_link_expires') + ': ' + formatDateTime(res.expiresAt) }));
+            result.appendChild(el('div', { class: 'row' }, [
+              el('input', { type: 'text', readonly: 'readonly', value: res.url }),
+              el('button', {
+                type: 'button',
+                class: 'btn blue small',
+                text: t('copy'),
+                onclick: function() {
+                  navigator.clipboard.writeText(res.url);
+                  setFlash(t('link_copied'), false);
+                },
+              }),
+            ]));
+          } catch (err) {
+            setFlash(String(err.message || err), true);
+          }
+        });
+        return form;
+      }
+
       async function createFileInfoView() {
         var id = state.selectedId;
         var data = await api('/api/entry/' + encodeURIComponent(id));
@@ -1748,8 +3437,11 @@ function htmlPage(): string {
           return block;
         }
 
-        var fullLink = location.origin + '/-' + data.id + '/' + data.filename;
-        var shortLink = location.origin + '/-' + data.id;
+        var ref = encodeURIComponent(data.alias || data.id);
+        var fullLink = location.origin + '/-' + ref + '/' + data.filename;
+        var shortLink = location.origin + '/-' + ref;
+        var downloadLink = shortLink + '?download=1';
+        var landingLink = location.origin + '/s/' + ref;
 
         var linksPanel = el('div', { class: 'panel stack' }, [
           el('h3', { text: t('links') }),
@@ -1763,13 +3455,26 @@ function htmlPage(): string {
             el('button', { type: 'button', class: 'btn blue small', text: t('copy'), onclick: function() { navigator.clipboard.writeText(shortLink); setFlash(t('short_link_copied'), false); } })
           ]),
           el('div', { class: 'small', text: t('short_link') }),
+          el('div', { class: 'row' }, [
+            el('a', { href: downloadLink, rel: 'noreferrer', text: downloadLink }),
+            el('button', { type: 'button', class: 'btn blue small', text: t('copy'), onclick: function() { navigator.clipboard.writeText(downloadLink); setFlash(t('link_copied'), false); } })
+          ]),
+          el('div', { class: 'small', text: t('download_link_hint') }),
+          el('div', { class: 'row' }, [
+            el('a', { href: landingLink, target: '_blank', rel: 'noreferrer', text: landingLink }),
+            el('button', { type: 'button', class: 'btn blue small', text: t('copy'), onclick: function() { navigator.clipboard.writeText(landingLink); setFlash(t('link_copied'), false); } })
+          ]),
+          el('div', { class: 'small', text: t('landing_page_link') }),
         ]);
 
         root.appendChild(linksPanel);
+        if (canModify(data)) root.appendChild(createSignedLinkPanel(data));
 
         var info = el('div', { class: 'stack' });
         info.appendChild(kv(t('filename'), data.filename));
+        if (data.relative_path) info.appendChild(kv(t('relative_path'), data.relative_path));
         info.appendChild(kv(t('size'), formatSize(data.size)));
+        info.appendChild(kv('SHA-256', data.sha256 || t('not_available')));
         info.appendChild(kv(t('expires'), formatDate(data.expiration_time)));
         var downloadsWrap = el('div');
         downloadsWrap.appendChild(el('strong', { text: t('downloads') }));
@@ -1791,7 +3496,16 @@ function htmlPage(): string {
         downloadsWrap.appendChild(dlRow);
         info.appendChild(downloadsWrap);
         info.appendChild(kv(t('note'), data.note || t('none')));
-        info.appendChild(kv(t('uploaded_by'), t('you')));
+        info.appendChild(kv(t('file_password'), data.has_password ? t('password_protected') : t('none')));
+        info.appendChild(kv(
+          t('download_limit'),
+          data.max_downloads
+            ? (data.max_downloads === 1 ? t('burn_after_reading') : String(data.max_downloads)) + ' (' + t('downloads_used') + ': ' + (data.served_downloads || 0) + ')'
+            : t('unlimited'),
+        ));
+        var uploader = data.created_by_name || (data.guest_link_id ? t('guest') : t('shared_secret_admin'));
+        if (state.me && data.created_by && data.created_by === state.me.userId) uploader += ' (' + t('you') + ')';
+        info.appendChild(kv(t('uploaded_by'), uploader));
         root.appendChild(info);
 
         root.appendChild(el('div', { class: 'submit-row' }, [
@@ -1894,6 +3608,16 @@ function htmlPage(): string {
         }
 
         var note = el('input', { id: 'edit-note', type: 'text', value: data.note || '' });
+        var password = el('input', {
+          id: 'edit-password',
+          type: 'password',
+          autocomplete: 'new-password',
+          maxlength: '128',
+          placeholder: data.has_password ? t('file_password_keep') : t('file_password_placeholder'),
+        });
+        var removePassword = el('input', { id: 'edit-remove-password', type: 'checkbox' });
+        var downloadLimit = createDownloadLimitField('edit', data.max_downloads);
+        var alias = el('input', { id: 'edit-alias', type: 'text', maxlength: '64', value: data.alias || '', placeholder: t('alias_placeholder') });
 
         form.appendChild(el('div', {}, [el('label', { for: 'edit-filename', text: t('filename') }), filename]));
         form.appendChild(el('div', {}, [el('label', { for: 'edit-exp', text: t('expiration') })]));
@@ -1903,6 +3627,22 @@ function htmlPage(): string {
         ]));
         form.appendChild(exp);
         form.appendChild(el('div', {}, [el('label', { for: 'edit-note', text: t('note') }), note, el('div', { class: 'small', text: t('note_only_you') })]));
+        form.appendChild(el('div', {}, [el('label', { for: 'edit-password', text: t('file_password') }), password]));
+        if (data.has_password) {
+          form.appendChild(el('div', { class: 'check-row' }, [
+            removePassword,
+            el('label', { for: 'edit-remove-password', text: t('remove_file_password') }),
+          ]));
+        }
+        form.appendChild(downloadLimit.node);
+        form.appendChild(el('div', {}, [
+          el('label', { for: 'edit-alias', text: t('alias') }),
+          alias,
+          el('div', { class: 'small', text: t('alias_hint') }),
+        ]));
+        if (data.max_downloads) {
+          form.appendChild(el('div', { class: 'small', text: t('downloads_used') + ': ' + (data.served_downloads || 0) + ' / ' + data.max_downloads }));
+        }
 
         var actions = el('div', { class: 'row', style: 'justify-content: space-between;' });
         actions.appendChild(el('button', {
@@ -1934,6 +3674,10 @@ function htmlPage(): string {
             note: note.value.trim(),
             deleteAfterExpiration: deleteAfter.checked,
             expirationDays: deleteAfter.checked ? Number(exp.value || 0) : 0,
+            password: password.value.trim() || undefined,
+            removePassword: removePassword.checked,
+            maxDownloads: downloadLimit.value(),
+            alias: alias.value.trim() || null,
           };
           await api('/api/entry/' + encodeURIComponent(id), {
             method: 'PUT',
@@ -2035,19 +3779,21 @@ function htmlPage(): string {
               setFlash(t('guest_link_copied'), false);
             }
           }));
-          actions.appendChild(el('button', {
-            type: 'button',
-            class: 'btn danger small',
-            text: t('delete'),
-            'aria-label': t('delete_guest_link'),
-            onclick: async function() {
-              if (!(await confirmAction(t('delete_guest_confirm'), t('delete')))) return;
-              await api('/api/guest-links/' + encodeURIComponent(gl.id), { method: 'DELETE' });
-              await refreshGuestLinks();
-              setFlash(t('guest_link_deleted'), false);
-              render();
-            }
-          }));
+          if (canModify(gl)) {
+            actions.appendChild(el('button', {
+              type: 'button',
+              class: 'btn danger small',
+              text: t('delete'),
+              'aria-label': t('delete_guest_link'),
+              onclick: async function() {
+                if (!(await confirmAction(t('delete_guest_confirm'), t('delete')))) return;
+                await api('/api/guest-links/' + encodeURIComponent(gl.id), { method: 'DELETE' });
+                await refreshGuestLinks();
+                setFlash(t('guest_link_deleted'), false);
+                render();
+              }
+            }));
+          }
           tr.appendChild(actions);
           tbody.appendChild(tr);
         });
@@ -2071,12 +3817,51 @@ function htmlPage(): string {
         root.appendChild(el('h2', { text: t('picoshare_usage') }));
 
         var list = el('ul', { style: 'font-size: 30px; line-height: 1.7;' });
-        list.appendChild(liStrong(t('upload_data'), formatSize(info.upload_data_bytes || 0)));
+        list.appendChild(liStrong(t('upload_data'), formatSize(info.logical_data_bytes || info.upload_data_bytes || 0)));
+        list.appendChild(liStrong(t('stored_data'), formatSize(info.physical_data_bytes || 0), true));
+        list.appendChild(liStrong(t('unique_blobs'), String(info.blob_count || 0), true));
         list.appendChild(liStrong(t('files'), String(info.db_entry_count || 0)));
         list.appendChild(liStrong(t('guest_links_count'), String(info.db_guest_link_count || 0)));
         list.appendChild(liStrong(t('total_downloads'), String(info.download_count || 0)));
+        list.appendChild(liStrong(t('pending_uploads'), String(info.pending_upload_count || 0)));
         root.appendChild(list);
 
+        var stale = info.stale_uploads || [];
+        root.appendChild(el('h2', { text: t('stale_uploads') }));
+        root.appendChild(el('div', { class: 'small', text: t('stale_uploads_desc').replace('{hours}', String(info.stale_upload_hours || 24)) }));
+        if (stale.length) {
+          var staleList = el('ul');
+          stale.forEach(function(row) {
+            var owner = row.created_by_name || (row.guest_link_id ? t('guest') : '-');
+            staleList.appendChild(el('li', {
+              text: row.filename + ' · ' + formatSize(Number(row.size || 0)) + ' · ' + row.part_count + ' ' + t('parts') +
+                ' · ' + owner + ' · ' + formatDateTime(row.created_time),
+            }));
+          });
+          root.appendChild(staleList);
+          if (hasRole('admin')) {
+            root.appendChild(el('div', { class: 'row' }, [
+              el('button', {
+                type: 'button',
+                class: 'btn danger small',
+                text: t('abort_stale_uploads'),
+                onclick: async function() {
+                  if (!(await confirmAction(t('abort_stale_uploads_confirm'), t('abort_upload')))) return;
+                  try {
+                    var res = await api('/api/entry/multipart/abort-stale', { method: 'POST' });
+                    setFlash(t('stale_uploads_aborted').replace('{count}', String(res.aborted || 0)), false);
+                    render();
+                  } catch (err) {
+                    setFlash(String(err.message || err), true);
+                  }
+                },
+              }),
+            ]));
+          }
+        } else {
+          root.appendChild(el('div', { class: 'small', text: t('no_stale_uploads') }));
+        }
+
         root.appendChild(el('h2', { text: 'PicoShare ' + t('version') }));
         var vList = el('ul', { style: 'font-size: 30px; line-height: 1.7;' });
         vList.appendChild(liStrong(t('version'), '1.0.0-ts'));
@@ -2118,6 +3903,48 @@ function htmlPage(): string {
         form.appendChild(toggleRow);
         form.appendChild(daysRow);
 
+        form.appendChild(el('h3', { text: t('download_links') }));
+        var requireSigned = el('input', { id: 'set-require-signed', type: 'checkbox' });
+        if (state.settings.requireSignedUrls) requireSigned.checked = true;
+        form.appendChild(el('div', { class: 'toggle-row' }, [
+          requireSigned,
+          el('label', { for: 'set-require-signed', text: t('require_signed_urls') }),
+        ]));
+        form.appendChild(el('div', { class: 'small', text: t('require_signed_urls_hint') }));
+        var linkMode = el('select', { id: 'set-share-link-mode' }, [
+          el('option', { value: 'raw', text: t('share_link_raw') }),
+          el('option', { value: 'landing', text: t('share_link_landing') }),
+        ]);
+        linkMode.value = state.settings.shareLinkMode || 'raw';
+        form.appendChild(el('label', { for: 'set-share-link-mode', text: t('share_link_mode') }));
+        form.appendChild(linkMode);
+
+        form.appendChild(el('h3', { text: t('link_id_length') }));
+        var entryIdLength = el('input', { id: 'set-entry-id-length', type: 'number', min: '8', max: '32', value: String(state.settings.entryIdLength || 10) });
+        var guestIdLength = el('input', { id: 'set-guest-id-length', type: 'number', min: '8', max: '32', value: String(state.settings.guestLinkIdLength || 10) });
+        form.appendChild(el('div', {}, [el('label', { for: 'set-entry-id-length', text: t('file_link_id_length') }), entryIdLength]));
+        form.appendChild(el('div', {}, [el('label', { for: 'set-guest-id-length', text: t('guest_link_id_length') }), guestIdLength]));
+        form.appendChild(el('div', { class: 'small', text: t('link_id_length_hint') }));
+
+        form.appendChild(el('h3', { text: t('uploads_section') }));
+        var maxUploadMb = el('input', {
+          id: 'set-max-upload-mb',
+          type: 'number',
+          min: '0',
+          value: String(Math.round(Number(state.settings.maxUploadBytes || 0) / (1024 * 1024))),
+        });
+        form.appendChild(el('div', {}, [el('label', { for: 'set-max-upload-mb', text: t('max_upload_mb') }), maxUploadMb]));
+        form.appendChild(el('div', { class: 'small', text: t('max_upload_mb_hint') }));
+        var staleHours = el('input', {
+          id: 'set-stale-upload-hours',
+          type: 'number',
+          min: '1',
+          max: '720',
+          value: String(state.settings.staleUploadHours || 24),
+        });
+        form.appendChild(el('div', {}, [el('label', { for: 'set-stale-upload-hours', text: t('stale_upload_hours') }), staleHours]));
+        form.appendChild(el('div', { class: 'small', text: t('stale_upload_hours_hint') }));
+
         form.appendChild(
           el('div', { class: 'submit-row' }, [
             el('button', { type: 'submit', class: 'btn form-submit', text: t('save') }),
@@ -2132,9 +3959,24 @@ function htmlPage(): string {
             body: JSON.stringify({
               storeForever: storeForever.checked,
               defaultDays: Number(days.value || 30),
+              requireSignedUrls: requireSigned.checked,
+              shareLinkMode: linkMode.value,
+              entryIdLength: Number(entryIdLength.value || 10),
+              guestLinkIdLength: Number(guestIdLength.value || 10),
+              maxUploadBytes: Math.max(0, Math.floor(Number(maxUploadMb.value || 0))) * 1024 * 1024,
+              staleUploadHours: Number(staleHours.value || 24),
             }),
           });
-          state.settings = { storeForever: storeForever.checked, defaultDays: Number(days.value || 30) };
+          state.settings = {
+            storeForever: storeForever.checked,
+            defaultDays: Number(days.value || 30),
+            requireSignedUrls: requireSigned.checked,
+            shareLinkMode: linkMode.value,
+            entryIdLength: Number(entryIdLength.value || 10),
+            guestLinkIdLength: Number(guestIdLength.value || 10),
+            maxUploadBytes: Math.max(0, Math.floor(Number(maxUploadMb.value || 0))) * 1024 * 1024,
+            staleUploadHours: Number(staleHours.value || 24),
+          };
           setFlash(t('settings_saved'), false);
         });
 
@@ -2142,78 +3984,660 @@ function htmlPage(): string {
         return root;
       }
 
-      async function render() {
-        closeSystemMenu();
-        hidePreview();
-        updateActiveNav();
-        mainEl.innerHTML = '';
+      async function createUsersView() {
+        state.users = await api('/api/users');
+        var root = el('section', { class: 'stack' });
+        root.appendChild(el('h1', { text: t('users') }));
+        root.appendChild(el('div', { class: 'small', text: t('signed_in_as') + ': ' + state.me.username }));
 
-        try {
-          if (state.view === 'upload') mainEl.appendChild(createUploadView());
-          else if (state.view === 'files') mainEl.appendChild(createFilesView());
-          else if (state.view === 'guestLinks') mainEl.appendChild(createGuestLinksView());
-          else if (state.view === 'systemInfo') mainEl.appendChild(await createSystemInfoView());
-          else if (state.view === 'settings') mainEl.appendChild(createSettingsView());
-          else if (state.view === 'fileInfo') mainEl.appendChild(await createFileInfoView());
-          else if (state.view === 'downloads') mainEl.appendChild(await createDownloadsView());
-          else if (state.view === 'fileEdit') mainEl.appendChild(await createFileEditView());
-          mainEl.focus();
-        } catch (err) {
-          setFlash(String(err.message || err), true);
+        function roleSelect(id, value) {
+          var select = el('select', { id: id }, ['viewer', 'uploader', 'admin'].map(function(role) {
+            return el('option', { value: role, text: t('role_' + role) });
+          }));
+          select.value = value || 'viewer';
+          return select;
         }
-      }
 
-      document.querySelectorAll('.nav [data-view]').forEach(function(btn) {
-        btn.addEventListener('click', function() {
-          state.view = btn.getAttribute('data-view');
-          state.selectedId = null;
-          setFlash('', false);
-          render();
+        var form = el('form', { class: 'panel stack' });
+        form.appendChild(el('h3', { text: t('create_user') }));
+        var username = el('input', { id: 'user-name', type: 'text', autocomplete: 'off' });
+        var password = el('input', { id: 'user-password', type: 'password', autocomplete: 'new-password', placeholder: t('password_placeholder') });
+        var role = roleSelect('user-role', 'uploader');
+        form.appendChild(el('div', {}, [el('label', { for: 'user-name', text: t('username') }), username]));
+        form.appendChild(el('div', {}, [el('label', { for: 'user-password', text: t('password') }), password]));
+        form.appendChild(el('div', {}, [el('label', { for: 'user-role', text: t('role') }), role]));
+        form.appendChild(el('div', { class: 'submit-row' }, [
+          el('button', { type: 'submit', class: 'btn form-submit', text: t('create_new') }),
+        ]));
+        form.addEventListener('submit', async function(evt) {
+          evt.preventDefault();
+          try {
+            await api('/api/users', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ username: username.value.trim(), password: password.value, role: role.value }),
+            });
+            setFlash(t('user_created'), false);
+            render();
+          } catch (err) {
+            setFlash(String(err.message || err), true);
+          }
         });
-      });
-      document.getElementById('nav-clips-btn').addEventListener('click', function() {
-        location.href = '/clips';
-      });
-
-      systemToggle.addEventListener('click', function() {
-        if (systemMenu.style.display === 'block') closeSystemMenu();
-        else openSystemMenu();
-      });
-
-      document.addEventListener('click', function(evt) {
-        if (!systemMenu.contains(evt.target) && !systemToggle.contains(evt.target)) closeSystemMenu();
-      });
-      confirmBackdrop.addEventListener('click', function(evt) {
-        if (evt.target === confirmBackdrop) confirmCancel.click();
-      });
+        root.appendChild(form);
 
-      systemMenu.querySelectorAll('[data-view]').forEach(function(btn) {
-        btn.addEventListener('click', function() {
-          state.view = btn.getAttribute('data-view');
-          setFlash('', false);
-          render();
+        var table = el('table');
+        var thead = el('thead');
+        var hr = el('tr');
+        [t('username'), t('role'), t('created'), t('actions')].forEach(function(h) {
+          hr.appendChild(el('th', { scope: 'col', text: h }));
         });
-      });
-
-      document.getElementById('logout-btn').addEventListener('click', logout);
-      langToggle.addEventListener('click', switchLang);
-      loginBtn.addEventListener('click', login);
-      pwEl.addEventListener('keydown', function(evt) {
-        if (evt.key === 'Enter') login();
-      });
-      window.addEventListener('blur', hidePreview);
-      document.addEventListener('visibilitychange', function() {
-        if (document.hidden) hidePreview();
-      });
+        thead.appendChild(hr);
+        table.appendChild(thead);
 
-      if (state.pw) {
-        loginEl.classList.add('hidden');
-        appEl.classList.remove('hidden');
-        loadInitialData().then(render).catch(function() {
-          logout();
-          setFlash(t('session_expired'), true);
-        });
+        var tbody = el('tbody');
+        state.users.forEach(function(user) {
+          var tr = el('tr');
+          tr.appendChild(el('td', { text: user.username }));
+          var select = roleSelect('role-' + user.id, user.role);
+          select.addEventListener('change', async function() {
+            try {
+              await api('/api/users/' + encodeURIComponent(user.id), {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ role: select.value }),
+              });
+              setFlash(t('user_updated'), false);
+            } catch (err) {
+              select.value = user.role;
+              setFlash(String(err.message || err), true);
+            }
+          });
+          tr.appendChild(el('td', {}, [select]));
+          tr.appendChild(el('td', { text: formatDate(user.created_time) }));
+          var actions = el('td', { class: 'actions' });
+          actions.appendChild(el('button', {
+            type: 'button',
+            class: 'btn secondary small',
+            text: t('reset_password'),
+            onclick: async function() {
+              var next = window.prompt(t('new_password_prompt'));
+              if (!next) return;
+              try {
+                await api('/api/users/' + encodeURIComponent(user.id), {
+                  method: 'PUT',
+                  headers: { 'Content-Type': 'application/json' },
+                  body: JSON.stringify({ password: next }),
+                });
+                setFlash(t('user_updated'), false);
+              } catch (err) {
+                setFlash(String(err.message || err), true);
+              }
+            },
+          }));
+          actions.appendChild(el('button', {
+            type: 'button',
+            class: 'btn danger small',
+            text: t('delete'),
+            'aria-label': t('delete_user'),
+            onclick: async function() {
+              if (!(await confirmAction(t('delete_user_confirm'), t('delete')))) return;
+              try {
+                await api('/api/users/' + encodeURIComponent(user.id), { method: 'DELETE' });
+                setFlash(t('user_deleted'), false);
+                render();
+              } catch (err) {
+                setFlash(String(err.message || err), true);
+              }
+            },
+          }));
+          tr.appendChild(actions);
+          tbody.appendChild(tr);
+        });
+        table.appendChild(tbody);
+        root.appendChild(table);
+        return root;
+      }
+
+      async function createSessionsView() {
+        var sessions = await api('/api/sessions');
+        var root = el('section', { class: 'stack stack-wide' });
+        root.appendChild(el('h1', { text: t('sessions') }));
+        root.appendChild(el('div', { class: 'note-box', text: t('sessions_desc') }));
+
+        var tableWrap = el('div', { class: 'table-wrap' });
+        var table = el('table', { class: 'files-table' });
+        var thead = el('thead');
+        var hr = el('tr');
+        [t('user'), t('created'), t('last_seen'), t('expires'), t('ip_address'), t('browser'), t('actions')].forEach(function(h) {
+          hr.appendChild(el('th', { scope: 'col', text: h }));
+        });
+        thead.appendChild(hr);
+        table.appendChild(thead);
+
+        var tbody = el('tbody');
+        sessions.forEach(function(session) {
+          var ua = parseUa(session.user_agent);
+          var tr = el('tr');
+          tr.appendChild(el('td', { text: session.username + (session.current ? ' (' + t('current_session') + ')' : '') }));
+          tr.appendChild(el('td', { text: formatDateTime(session.created_time) }));
+          tr.appendChild(el('td', { text: formatDateTime(session.last_seen_at) }));
+          tr.appendChild(el('td', { text: formatDateTime(session.expires_at) }));
+          tr.appendChild(el('td', { text: session.ip || '-' }));
+          tr.appendChild(el('td', { text: ua.browser + (ua.platform ? ' / ' + ua.platform : '') }));
+          var actions = el('td', { class: 'actions' });
+          actions.appendChild(el('button', {
+            type: 'button',
+            class: 'btn danger small',
+            text: t('revoke'),
+            onclick: async function() {
+              if (!(await confirmAction(t('revoke_session_confirm'), t('revoke')))) return;
+              try {
+                await api('/api/sessions/' + encodeURIComponent(session.id), { method: 'DELETE' });
+                if (session.current) {
+                  showLogin('');
+                  setFlash(t('logged_out'), false);
+                  return;
+                }
+                setFlash(t('session_revoked'), false);
+                render();
+              } catch (err) {
+                setFlash(String(err.message || err), true);
+              }
+            },
+          }));
+          tr.appendChild(actions);
+          tbody.appendChild(tr);
+        });
+        if (sessions.length === 0) {
+          var empty = el('tr');
+          empty.appendChild(el('td', { text: t('no_sessions'), colspan: '7' }));
+          tbody.appendChild(empty);
+        }
+        table.appendChild(tbody);
+        tableWrap.appendChild(table);
+        root.appendChild(tableWrap);
+        return root;
+      }
+
+      async function createLockoutsView() {
+        var lockouts = await api('/api/auth-lockouts');
+        var root = el('section', { class: 'stack stack-wide' });
+        root.appendChild(el('h1', { text: t('lockouts') }));
+        root.appendChild(el('div', { class: 'note-box', text: t('lockouts_desc') }));
+
+        var tableWrap = el('div', { class: 'table-wrap' });
+        var table = el('table', { class: 'files-table' });
+        var thead = el('thead');
+        var hr = el('tr');
+        [t('lockout_kind'), t('lockout_subject'), t('failures'), t('locked_until'), t('actions')].forEach(function(h) {
+          hr.appendChild(el('th', { scope: 'col', text: h }));
+        });
+        thead.appendChild(hr);
+        table.appendChild(thead);
+
+        var tbody = el('tbody');
+        lockouts.forEach(function(row) {
+          var tr = el('tr');
+          tr.appendChild(el('td', { text: row.kind === 'ip' ? t('lockout_ip') : t('lockout_target') }));
+          tr.appendChild(el('td', { text: row.subject }));
+          tr.appendChild(el('td', { text: String(row.failures) }));
+          tr.appendChild(el('td', { text: formatDateTime(row.locked_until) }));
+          var actions = el('td', { class: 'actions' });
+          actions.appendChild(el('button', {
+            type: 'button',
+            class: 'btn danger small',
+            text: t('unblock'),
+            onclick: async function() {
+              try {
+                await api('/api/auth-lockouts/' + encodeURIComponent(row.kind) + '/' + encodeURIComponent(row.subject), { method: 'DELETE' });
+                setFlash(t('unblocked'), false);
+                render();
+              } catch (err) {
+                setFlash(String(err.message || err), true);
+              }
+            },
+          }));
+          tr.appendChild(actions);
+          tbody.appendChild(tr);
+        });
+        if (lockouts.length === 0) {
+          var empty = el('tr');
+          empty.appendChild(el('td', { text: t('no_lockouts'), colspan: '5' }));
+          tbody.appendChild(empty);
+        }
+        table.appendChild(tbody);
+        tableWrap.appendChild(table);
+        root.appendChild(tableWrap);
+        return root;
+      }
+
+      async function createPendingUploadsView() {
+        var uploads = await api('/api/entry/multipart/uploads');
+        var root = el('section', { class: 'stack stack-wide' });
+        root.appendChild(el('h1', { text: t('pending_uploads') }));
+        root.appendChild(el('div', { class: 'note-box', text: t('pending_uploads_desc') }));
+
+        var resumeRow = null;
+        var resumeInput = el('input', { type: 'file', class: 'hidden' });
+        resumeInput.addEventListener('change', async function() {
+          var file = resumeInput.files && resumeInput.files[0];
+          var row = resumeRow;
+          resumeInput.value = '';
+          if (!file || !row) return;
+          setBusy(true, t('uploading_wait'));
+          try {
+            if (!pendingUploadMatches(row, file, await fileFingerprint(file))) {
+              setFlash(t('resume_mismatch'), true);
+              return;
+            }
+            await multipartUploadFile(file, {}, row);
+            setFlash(t('upload_success'), false);
+            await refreshFiles();
+            state.view = 'files';
+            await render();
+          } catch (err) {
+            setFlash(String(err.message || err), true);
+          } finally {
+            setBusy(false);
+          }
+        });
+        root.appendChild(resumeInput);
+
+        var tableWrap = el('div', { class: 'table-wrap' });
+        var table = el('table', { class: 'files-table' });
+        var thead = el('thead');
+        var hr = el('tr');
+        [t('filename'), t('size'), t('upload_progress'), t('upload_method'), t('uploaded_by'), t('started'), t('actions')].forEach(function(h) {
+          hr.appendChild(el('th', { scope: 'col', text: h }));
+        });
+        thead.appendChild(hr);
+        table.appendChild(thead);
+
+        var tbody = el('tbody');
+        uploads.forEach(function(row) {
+          var size = Number(row.size || 0);
+          var received = Number(row.uploaded_bytes || 0);
+          var percent = size > 0 ? Math.floor((received / size) * 100) : 0;
+          var tr = el('tr');
+          tr.appendChild(el('td', { text: row.filename }));
+          tr.appendChild(el('td', { text: formatSize(size) }));
+          tr.appendChild(el('td', { text: formatSize(received) + ' (' + percent + '%)' }));
+          tr.appendChild(el('td', { text: row.tus ? 'tus' : row.server_streamed ? t('streamed_upload') : t('browser_upload') }));
+          tr.appendChild(el('td', { text: row.created_by_name || (row.guest_link_id ? t('guest') : '-') }));
+          tr.appendChild(el('td', { text: formatDateTime(row.created_time) }));
+          var actions = el('td', { class: 'actions' });
+          if (!row.tus && !row.server_streamed && !row.guest_link_id && canModify(row)) {
+            actions.appendChild(el('button', {
+              type: 'button',
+              class: 'btn blue small',
+              text: t('resume'),
+              onclick: function() {
+                resumeRow = row;
+                resumeInput.click();
+              },
+            }));
+          }
+          if (canModify(row)) {
+            actions.appendChild(el('button', {
+              type: 'button',
+              class: 'btn danger small',
+              text: t('abort_upload'),
+              onclick: async function() {
+                if (!(await confirmAction(t('abort_upload_confirm'), t('abort_upload')))) return;
+                try {
+                  await api('/api/entry/multipart/abort', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ uploadId: row.upload_id }),
+                  });
+                  setFlash(t('upload_aborted'), false);
+                  render();
+                } catch (err) {
+                  setFlash(String(err.message || err), true);
+                }
+              },
+            }));
+          }
+          tr.appendChild(actions);
+          tbody.appendChild(tr);
+        });
+        if (uploads.length === 0) {
+          var empty = el('tr');
+          empty.appendChild(el('td', { text: t('no_pending_uploads'), colspan: '7' }));
+          tbody.appendChild(empty);
+        }
+        table.appendChild(tbody);
+        tableWrap.appendChild(table);
+        root.appendChild(tableWrap);
+        return root;
+      }
+
+      function createRecoveryCodesBox(codes) {
+        var box = el('div', { class: 'note-box stack' });
+        box.appendChild(el('div', { text: t('recovery_codes_desc') }));
+        box.appendChild(el('pre', { text: codes.join('\\n') }));
+        box.appendChild(el('div', { class: 'row' }, [
+          el('button', {
+            type: 'button',
+            class: 'btn blue small',
+            text: t('copy'),
+            onclick: function() {
+              navigator.clipboard.writeText(codes.join('\\n'));
+              setFlash(t('recovery_codes_copied'), false);
+            },
+          }),
+        ]));
+        return box;
+      }
+
+      async function createTwoFactorView() {
+        var status = await api('/api/2fa');
+        var root = el('section', { class: 'stack stack-wide' });
+        root.appendChild(el('h1', { text: t('two_factor') }));
+        root.appendChild(el('div', { class: 'note-box', text: t('two_factor_desc') }));
+
+        var panel = el('div', { class: 'panel stack' });
+        root.appendChild(panel);
+        var output = el('div');
+        var codeInput = el('input', { id: 'totp-code', type: 'text', inputmode: 'numeric', autocomplete: 'one-time-code', placeholder: t('otp_placeholder') });
+        var codeRow = el('div', {}, [el('label', { for: 'totp-code', text: t('otp_code') }), codeInput]);
+
+        async function submitCode(path) {
+          var res = await api(path, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ code: codeInput.value.trim() }),
+          });
+          codeInput.value = '';
+          return res;
+        }
+
+        if (status.enabled) {
+          panel.appendChild(el('p', { text: t('two_factor_enabled') }));
+          panel.appendChild(el('p', { class: 'small', text: t('recovery_codes_remaining') + ': ' + status.recoveryCodesRemaining }));
+          panel.appendChild(codeRow);
+          panel.appendChild(el('div', { class: 'row' }, [
+            el('button', {
+              type: 'button',
+              class: 'btn blue',
+              text: t('regenerate_recovery_codes'),
+              onclick: async function() {
+                try {
+                  var res = await submitCode('/api/2fa/recovery-codes');
+                  output.innerHTML = '';
+                  output.appendChild(createRecoveryCodesBox(res.recoveryCodes));
+                } catch (err) {
+                  setFlash(String(err.message || err), true);
+                }
+              },
+            }),
+            el('button', {
+              type: 'button',
+              class: 'btn danger',
+              text: t('disable'),
+              onclick: async function() {
+                if (!(await confirmAction(t('are_you_sure'), t('disable')))) return;
+                try {
+                  await submitCode('/api/2fa/disable');
+                  setFlash(t('two_factor_off'), false);
+                  render();
+                } catch (err) {
+                  setFlash(String(err.message || err), true);
+                }
+              },
+            }),
+          ]));
+          panel.appendChild(output);
+          return root;
+        }
+
+        panel.appendChild(el('p', { text: t('two_factor_disabled') }));
+        var setupBtn = el('button', {
+          type: 'button',
+          class: 'btn blue',
+          text: t('begin_setup'),
+          onclick: async function() {
+            try {
+              var setup = await api('/api/2fa/setup', { method: 'POST' });
+              setupBtn.classList.add('hidden');
+              var qr = el('div', { class: 'qr-box' });
+              qr.innerHTML = setup.qrSvg;
+              panel.appendChild(el('p', { class: 'small', text: t('scan_qr') }));
+              panel.appendChild(qr);
+              panel.appendChild(el('div', {}, [
+                el('label', { text: t('secret_key') }),
+                el('input', { type: 'text', readonly: 'readonly', value: setup.secret }),
+              ]));
+              panel.appendChild(codeRow);
+              panel.appendChild(el('div', { class: 'submit-row' }, [
+                el('button', {
+                  type: 'button',
+                  class: 'btn form-submit',
+                  text: t('enable'),
+                  onclick: async function() {
+                    try {
+                      var res = await submitCode('/api/2fa/enable');
+                      panel.innerHTML = '';
+                      panel.appendChild(el('p', { text: t('two_factor_enabled') }));
+                      panel.appendChild(createRecoveryCodesBox(res.recoveryCodes));
+                    } catch (err) {
+                      setFlash(String(err.message || err), true);
+                    }
+                  },
+                }),
+              ]));
+            } catch (err) {
+              setFlash(String(err.message || err), true);
+            }
+          },
+        });
+        panel.appendChild(el('div', { class: 'row' }, [setupBtn]));
+        return root;
+      }
+
+      async function createTokensView() {
+        var tokens = await api('/api/tokens');
+        var scopeNames = ['entries:read', 'entries:write', 'guest-links:manage', 'settings'];
+        var root = el('section', { class: 'stack stack-wide' });
+        root.appendChild(el('h1', { text: t('api_tokens') }));
+        root.appendChild(el('div', { class: 'note-box', text: t('api_tokens_desc') }));
+
+        var form = el('form', { class: 'panel stack' });
+        form.appendChild(el('h3', { text: t('create_token') }));
+        var name = el('input', { id: 'token-name', type: 'text', maxlength: '120', placeholder: t('token_name_placeholder') });
+        form.appendChild(el('div', {}, [el('label', { for: 'token-name', text: t('token_name') }), name]));
+        form.appendChild(el('label', { text: t('scopes') }));
+        var scopeInputs = scopeNames.map(function(scope, idx) {
+          var input = el('input', { id: 'token-scope-' + idx, type: 'checkbox', value: scope });
+          form.appendChild(el('div', { class: 'check-row' }, [input, el('label', { for: 'token-scope-' + idx, text: scope })]));
+          return input;
+        });
+        var created = el('div', { class: 'hidden' });
+        form.appendChild(created);
+        form.appendChild(el('div', { class: 'submit-row' }, [
+          el('button', { type: 'submit', class: 'btn form-submit', text: t('create_new') }),
+        ]));
+        form.addEventListener('submit', async function(evt) {
+          evt.preventDefault();
+          var scopes = scopeInputs.filter(function(input) { return input.checked; }).map(function(input) { return input.value; });
+          if (!scopes.length) {
+            setFlash(t('select_scope_first'), true);
+            return;
+          }
+          try {
+            var res = await api('/api/tokens', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ name: name.value.trim(), scopes: scopes }),
+            });
+            var tokenInput = el('input', { type: 'text', readonly: 'readonly', value: res.token });
+            created.innerHTML = '';
+            created.className = 'note-box';
+            created.appendChild(el('div', { text: t('token_created') }));
+            created.appendChild(el('div', { class: 'row' }, [
+              tokenInput,
+              el('button', {
+                type: 'button',
+                class: 'btn blue small',
+                text: t('copy'),
+                onclick: function() {
+                  navigator.clipboard.writeText(res.token);
+                  setFlash(t('token_copied'), false);
+                },
+              }),
+            ]));
+            name.value = '';
+            scopeInputs.forEach(function(input) { input.checked = false; });
+            tokens = await api('/api/tokens');
+            renderRows();
+          } catch (err) {
+            setFlash(String(err.message || err), true);
+          }
+        });
+        root.appendChild(form);
+
+        var tableWrap = el('div', { class: 'table-wrap' });
+        var table = el('table', { class: 'files-table' });
+        var thead = el('thead');
+        var hr = el('tr');
+        [t('token_name'), t('scopes'), t('uploaded_by'), t('created'), t('last_used'), t('actions')].forEach(function(h) {
+          hr.appendChild(el('th', { scope: 'col', text: h }));
+        });
+        thead.appendChild(hr);
+        table.appendChild(thead);
+        var tbody = el('tbody');
+        table.appendChild(tbody);
+
+        function renderRows() {
+          tbody.innerHTML = '';
+          tokens.forEach(function(token) {
+            var tr = el('tr');
+            tr.appendChild(el('td', { text: token.name }));
+            tr.appendChild(el('td', { text: (token.scopes || []).join(', ') }));
+            tr.appendChild(el('td', { text: token.created_by_name || t('shared_secret_admin') }));
+            tr.appendChild(el('td', { text: formatDateTime(token.created_time) }));
+            tr.appendChild(el('td', { text: token.last_used_at ? formatDateTime(token.last_used_at) : t('never') }));
+            var actions = el('td', { class: 'actions' });
+            actions.appendChild(el('button', {
+              type: 'button',
+              class: 'btn danger small',
+              text: t('revoke'),
+              onclick: async function() {
+                if (!(await confirmAction(t('revoke_token_confirm'), t('revoke')))) return;
+                try {
+                  await api('/api/tokens/' + encodeURIComponent(token.id), { method: 'DELETE' });
+                  setFlash(t('token_revoked'), false);
+                  render();
+                } catch (err) {
+                  setFlash(String(err.message || err), true);
+                }
+              },
+            }));
+            tr.appendChild(actions);
+            tbody.appendChild(tr);
+          });
+          if (tokens.length === 0) {
+            var empty = el('tr');
+            empty.appendChild(el('td', { text: t('no_tokens'), colspan: '6' }));
+            tbody.appendChild(empty);
+          }
+        }
+        renderRows();
+
+        tableWrap.appendChild(table);
+        root.appendChild(tableWrap);
+        return root;
+      }
+
+      async function render() {
+        closeSystemMenu();
+        hidePreview();
+        updateActiveNav();
+        mainEl.innerHTML = '';
+
+        try {
+          if (state.view === 'upload') mainEl.appendChild(createUploadView());
+          else if (state.view === 'files') mainEl.appendChild(createFilesView());
+          else if (state.view === 'guestLinks') mainEl.appendChild(createGuestLinksView());
+          else if (state.view === 'systemInfo') mainEl.appendChild(await createSystemInfoView());
+          else if (state.view === 'settings') mainEl.appendChild(createSettingsView());
+          else if (state.view === 'fileInfo') mainEl.appendChild(await createFileInfoView());
+          else if (state.view === 'downloads') mainEl.appendChild(await createDownloadsView());
+          else if (state.view === 'fileEdit') mainEl.appendChild(await createFileEditView());
+          else if (state.view === 'users') mainEl.appendChild(await createUsersView());
+          else if (state.view === 'sessions') mainEl.appendChild(await createSessionsView());
+          else if (state.view === 'tokens') mainEl.appendChild(await createTokensView());
+          else if (state.view === 'twoFactor') mainEl.appendChild(await createTwoFactorView());
+          else if (state.view === 'lockouts') mainEl.appendChild(await createLockoutsView());
+          else if (state.view === 'pendingUploads') mainEl.appendChild(await createPendingUploadsView());
+          mainEl.focus();
+        } catch (err) {
+          setFlash(String(err.message || err), true);
+        }
       }
+
+      document.querySelectorAll('.nav [data-view]').forEach(function(btn) {
+        btn.addEventListener('click', function() {
+          state.view = btn.getAttribute('data-view');
+          state.selectedId = null;
+          setFlash('', false);
+          render();
+        });
+      });
+      document.getElementById('nav-clips-btn').addEventListener('click', function() {
+        location.href = '/clips';
+      });
+
+      systemToggle.addEventListener('click', function() {
+        if (systemMenu.style.display === 'block') closeSystemMenu();
+        else openSystemMenu();
+      });
+
+      document.addEventListener('click', function(evt) {
+        if (!systemMenu.contains(evt.target) && !systemToggle.contains(evt.target)) closeSystemMenu();
+      });
+      confirmBackdrop.addEventListener('click', function(evt) {
+        if (evt.target === confirmBackdrop) confirmCancel.click();
+      });
+
+      systemMenu.querySelectorAll('[data-view]').forEach(function(btn) {
+        btn.addEventListener('click', function() {
+          state.view = btn.getAttribute('data-view');
+          setFlash('', false);
+          render();
+        });
+      });
+
+      document.getElementById('logout-btn').addEventListener('click', logout);
+      langToggle.addEventListener('click', switchLang);
+      loginBtn.addEventListener('click', login);
+      usernameEl.addEventListener('keydown', function(evt) {
+        if (evt.key === 'Enter') pwEl.focus();
+      });
+      pwEl.addEventListener('keydown', function(evt) {
+        if (evt.key === 'Enter') login();
+      });
+      otpEl.addEventListener('keydown', function(evt) {
+        if (evt.key === 'Enter') login();
+      });
+      window.addEventListener('blur', hidePreview);
+      document.addEventListener('visibilitychange', function() {
+        if (document.hidden) hidePreview();
+      });
+
+      // Older builds kept the raw shared secret in localStorage; sessions replace it.
+      localStorage.removeItem('ps_pw');
+      loginEl.classList.add('hidden');
+      fetch('/api/me').then(function(res) {
+        if (!res.ok) {
+          loginEl.classList.remove('hidden');
+          return;
+        }
+        appEl.classList.remove('hidden');
+        return loadInitialData().then(render);
+      }).catch(function() {
+        showLogin(t('session_expired'));
+      });
       applyStaticTranslations();
     })();
   </script>
@@ -2221,24 +4645,64 @@ function htmlPage(): string {
 </html>`;
 }
 
+const ENTRY_COLUMNS = `id, filename, content_type, size, upload_time, expiration_time, note, guest_link_id, created_by,
+  password_hash, max_downloads, served_downloads, alias, sha256, object_key, relative_path`;
+
 async function getEntryById(env: Env, id: string): Promise<EntryRow | null> {
-  return env.DB.prepare(
-    "SELECT id, filename, content_type, size, upload_time, expiration_time, note, guest_link_id FROM entries WHERE id = ?",
-  )
+  return env.DB.prepare(`SELECT ${ENTRY_COLUMNS} FROM entries WHERE id = ?`)
     .bind(id)
     .first<EntryRow>();
 }
 
-async function getMultipartUploadById(env: Env, uploadId: string): Promise<MultipartUploadRow | null> {
-  return env.DB.prepare(
-    `SELECT upload_id, entry_id, filename, content_type, size, expiration_time, note
-     FROM multipart_uploads
-     WHERE upload_id = ?`,
+// Public links accept either the random id or a vanity alias; ids win so old links never change meaning.
+async function getEntryByIdOrAlias(env: Env, ref: string): Promise<EntryRow | null> {
+  const byId = await getEntryById(env, ref);
+  if (byId) return byId;
+  const alias = sanitizeEntryAlias(ref);
+  if (!alias) return null;
+  return env.DB.prepare(`SELECT ${ENTRY_COLUMNS} FROM entries WHERE alias = ?`)
+    .bind(alias)
+    .first<EntryRow>();
+}
+
+// Resolves a requested alias for `entryId` (null for new uploads): null/empty clears it, anything else
+// must be a valid slug that no other entry, pending multipart upload or entry id already uses.
+async function resolveEntryAlias(
+  env: Env,
+  input: unknown,
+  entryId: string | null,
+): Promise<{ alias: string | null } | { error: string; status: number }> {
+  if (input == null || input === "") return { alias: null };
+  const alias = typeof input === "string" ? sanitizeEntryAlias(input) : null;
+  if (!alias) return { error: "invalid alias", status: 400 };
+  const taken = await env.DB.prepare(
+    `SELECT 1 AS taken FROM entries WHERE (alias = ?1 OR id = ?1) AND id != ?2
+     UNION ALL
+     SELECT 1 FROM multipart_uploads WHERE alias = ?1 AND entry_id != ?2
+     LIMIT 1`,
   )
+    .bind(alias, entryId ?? "")
+    .first<{ taken: number }>();
+  if (taken) return { error: "alias already in use", status: 409 };
+  return { alias };
+}
+
+const MULTIPART_UPLOAD_COLUMNS = `upload_id, entry_id, filename, content_type, size, expiration_time, note, created_by,
+  password_hash, max_downloads, alias, expected_sha256, tus_offset, tus_parts, tus_tail_size, expires_at, fingerprint,
+  chunk_size, guest_link_id, relative_path, server_streamed`;
+
+async function getMultipartUploadById(env: Env, uploadId: string): Promise<MultipartUploadRow | null> {
+  return env.DB.prepare(`SELECT ${MULTIPART_UPLOAD_COLUMNS} FROM multipart_uploads WHERE upload_id = ?`)
     .bind(uploadId)
     .first<MultipartUploadRow>();
 }
 
+async function getMultipartUploadByEntryId(env: Env, entryId: string): Promise<MultipartUploadRow | null> {
+  return env.DB.prepare(`SELECT ${MULTIPART_UPLOAD_COLUMNS} FROM multipart_uploads WHERE entry_id = ?`)
+    .bind(entryId)
+    .first<MultipartUploadRow>();
+}
+
 export function isExpired(iso: string | null): boolean {
   if (!iso) return false;
   const d = new Date(iso);
@@ -2246,79 +4710,562 @@ export function isExpired(iso: string | null): boolean {
   return d.getTime() <= Date.now();
 }
 
-export function parseDateFromUnknown(v: unknown): string | null {
-  if (typeof v !== "string" || v.trim() === "") return null;
-  const d = new Date(v);
-  if (Number.isNaN(d.getTime())) return null;
-  return d.toISOString();
+export function parseDateFromUnknown(v: unknown): string | null {
+  if (typeof v !== "string" || v.trim() === "") return null;
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) return null;
+  return d.toISOString();
+}
+
+export function escapeHtml(input: string): string {
+  return input
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function clipboardKey(slug: string): string {
+  return `${CLIPBOARD_KEY_PREFIX}${slug}`;
+}
+
+export function sanitizeUploadFingerprint(input: unknown): string | null {
+  if (typeof input !== "string") return null;
+  const value = input.trim();
+  return /^[\x21-\x7e]{1,128}$/.test(value) ? value : null;
+}
+
+// Folder uploads keep each file's path below the chosen folder; ".." and empty segments are refused.
+export function sanitizeRelativePath(input: unknown): string | null {
+  if (typeof input !== "string") return null;
+  const segments = input.replace(/\\/g, "/").split("/").filter((seg) => seg && seg !== ".");
+  if (!segments.length || segments.some((seg) => seg === ".." || /[\u0000-\u001f\u007f]/.test(seg))) return null;
+  const path = segments.join("/");
+  return path.length <= 1024 ? path : null;
+}
+
+// Entry aliases follow clipboard slug rules so both kinds of vanity URL look alike.
+export function sanitizeEntryAlias(input: string): string | null {
+  return sanitizeClipboardSlug(input);
+}
+
+export function sanitizeClipboardSlug(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  if (trimmed.length > 64) return null;
+
+  const normalized = trimmed
+    .toLowerCase()
+    .replace(/\s+/g, "-");
+  if (!normalized) return null;
+  if (normalized.startsWith("-") || normalized.endsWith("-")) return null;
+  if (RESERVED_CLIPBOARD_SLUGS.has(normalized)) return null;
+
+  const slugPattern = /^[\p{L}\p{N}_-]+$/u;
+  if (!slugPattern.test(normalized)) return null;
+  return normalized;
+}
+
+export function calculateClipboardStats(content: string): {
+  itemCount: number;
+  lineCount: number;
+  charCount: number;
+} {
+  const text = String(content || "");
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { itemCount: 0, lineCount: 0, charCount: 0 };
+  }
+  const lines = text.split(/\r?\n/);
+  return {
+    itemCount: lines.filter((line) => line.trim() !== "").length,
+    lineCount: lines.length,
+    charCount: text.length,
+  };
+}
+
+export function normalizeClipboardPassword(input: unknown): string | null {
+  if (typeof input !== "string") return null;
+  const value = input.trim();
+  if (!value) return null;
+  if (value.length > 128) return null;
+  return value;
+}
+
+export async function sha256Hex(input: string | ArrayBuffer | Uint8Array): Promise<string> {
+  const bytes = typeof input === "string" ? new TextEncoder().encode(input) : input;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return bytesToHex(new Uint8Array(digest));
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function hmacSha256Base64Url(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const sig = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+  return bytesToBase64Url(new Uint8Array(sig));
+}
+
+export function base64ToBytes(input: string): Uint8Array {
+  const binary = atob(input);
+  const out = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) out[i] = binary.charCodeAt(i);
+  return out;
+}
+
+// RFC 9530 digest field value, e.g. `sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:`.
+export function sha256DigestField(hex: string): string {
+  const bytes = new Uint8Array(hex.match(/../g)!.map((b) => parseInt(b, 16)));
+  return `sha-256=:${bytesToBase64(bytes)}:`;
+}
+
+function base64Sha256ToHex(value: string): string | null {
+  try {
+    const bytes = base64ToBytes(value);
+    return bytes.length === 32 ? bytesToHex(bytes) : null;
+  } catch {
+    return null;
+  }
+}
+
+// The digest a client expects its upload to have, as lowercase hex. Accepts a hex form field,
+// `Content-Digest`/`Repr-Digest` (RFC 9530) and the older `Digest: SHA-256=...` (RFC 3230); headers are
+// read as describing the uploaded file. Other algorithms are ignored. "invalid" covers malformed or
+// disagreeing values.
+export function expectedSha256(headers: Headers, field: unknown): string | null | "invalid" {
+  const found: string[] = [];
+  if (typeof field === "string" && field.trim()) {
+    const hex = field.trim().toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(hex)) return "invalid";
+    found.push(hex);
+  }
+  const sources: Array<[string, RegExp]> = [
+    ["Content-Digest", /(?:^|,)\s*sha-256\s*=\s*:([^:]*):/i],
+    ["Repr-Digest", /(?:^|,)\s*sha-256\s*=\s*:([^:]*):/i],
+    ["Digest", /(?:^|,)\s*sha-256\s*=\s*([A-Za-z0-9+/=]*)/i],
+  ];
+  for (const [name, pattern] of sources) {
+    const match = pattern.exec(headers.get(name) || "");
+    if (!match) continue;
+    const hex = base64Sha256ToHex(match[1].trim());
+    if (!hex) return "invalid";
+    found.push(hex);
+  }
+  if (!found.length) return null;
+  return found.every((hex) => hex === found[0]) ? found[0] : "invalid";
+}
+
+function timingSafeEqualBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i += 1) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+async function pbkdf2Sha256(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+}
+
+// Encoded as pbkdf2-sha256$<iterations>$<salt base64>$<hash base64>.
+export async function hashPassword(password: string, iterations = PASSWORD_HASH_ITERATIONS): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const derived = await pbkdf2Sha256(password, salt, iterations);
+  return `${PASSWORD_HASH_SCHEME}$${iterations}$${bytesToBase64(salt)}$${bytesToBase64(derived)}`;
+}
+
+export async function verifyPasswordHash(encoded: string, password: string): Promise<boolean> {
+  const parts = encoded.split("$");
+  if (parts.length !== 4 || parts[0] !== PASSWORD_HASH_SCHEME) return false;
+  const iterations = Number.parseInt(parts[1], 10);
+  if (!Number.isFinite(iterations) || iterations <= 0) return false;
+  try {
+    const expected = base64ToBytes(parts[3]);
+    const derived = await pbkdf2Sha256(password, base64ToBytes(parts[2]), iterations);
+    return timingSafeEqualBytes(derived, expected);
+  } catch {
+    return false;
+  }
+}
+
+// Minimal QR code encoder (byte mode, error correction level M), enough for otpauth:// URIs.
+const QR_ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const QR_NUM_ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+
+function qrNumRawDataModules(ver: number): number {
+  let result = (16 * ver + 128) * ver + 64;
+  if (ver >= 2) {
+    const numAlign = Math.floor(ver / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (ver >= 7) result -= 36;
+  }
+  return result;
+}
+
+function qrNumDataCodewords(ver: number): number {
+  return Math.floor(qrNumRawDataModules(ver) / 8) - QR_ECC_CODEWORDS_PER_BLOCK[ver] * QR_NUM_ERROR_CORRECTION_BLOCKS[ver];
+}
+
+function qrGfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function qrReedSolomonRemainder(data: number[], degree: number): number[] {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < divisor.length; j += 1) {
+      divisor[j] = qrGfMultiply(divisor[j], root);
+      if (j + 1 < divisor.length) divisor[j] ^= divisor[j + 1];
+    }
+    root = qrGfMultiply(root, 0x02);
+  }
+  const result = new Array<number>(degree).fill(0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= qrGfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+function qrAlignmentPositions(ver: number): number[] {
+  if (ver === 1) return [];
+  const size = ver * 4 + 17;
+  const numAlign = Math.floor(ver / 7) + 2;
+  const step = Math.floor((ver * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+}
+
+function qrMaskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+function qrPenaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+  const finderLike = [true, false, true, true, true, false, true, false, false, false, false];
+  const matchesAt = (line: boolean[], start: number, pattern: boolean[]) =>
+    pattern.every((v, k) => line[start + k] === v);
+  const lines: boolean[][] = [];
+  for (let y = 0; y < size; y += 1) lines.push(modules[y]);
+  for (let x = 0; x < size; x += 1) lines.push(modules.map((row) => row[x]));
+  for (const line of lines) {
+    let runColor = line[0];
+    let runLen = 1;
+    for (let i = 1; i <= size; i += 1) {
+      if (i < size && line[i] === runColor) {
+        runLen += 1;
+        continue;
+      }
+      if (runLen >= 5) penalty += 3 + (runLen - 5);
+      if (i < size) {
+        runColor = line[i];
+        runLen = 1;
+      }
+    }
+    const reversed = [...finderLike].reverse();
+    for (let i = 0; i + finderLike.length <= size; i += 1) {
+      if (matchesAt(line, i, finderLike) || matchesAt(line, i, reversed)) penalty += 40;
+    }
+  }
+  let dark = 0;
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      if (modules[y][x]) dark += 1;
+      if (x + 1 < size && y + 1 < size) {
+        const c = modules[y][x];
+        if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) penalty += 3;
+      }
+    }
+  }
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+}
+
+export function qrCodeMatrix(text: string): boolean[][] {
+  const bytes = new TextEncoder().encode(text);
+  let ver = 1;
+  for (; ver <= 40; ver += 1) {
+    const countBits = ver <= 9 ? 8 : 16;
+    if (4 + countBits + bytes.length * 8 <= qrNumDataCodewords(ver) * 8) break;
+  }
+  if (ver > 40) throw new Error("data too long for a QR code");
+
+  const bits: number[] = [];
+  const appendBits = (value: number, len: number) => {
+    for (let i = len - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+  };
+  appendBits(0x4, 4);
+  appendBits(bytes.length, ver <= 9 ? 8 : 16);
+  for (const b of bytes) appendBits(b, 8);
+  const capacityBits = qrNumDataCodewords(ver) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  for (let pad = 0xec; data.length < capacityBits / 8; pad ^= 0xec ^ 0x11) data.push(pad);
+
+  // Split into blocks, add error correction and interleave.
+  const numBlocks = QR_NUM_ERROR_CORRECTION_BLOCKS[ver];
+  const blockEccLen = QR_ECC_CODEWORDS_PER_BLOCK[ver];
+  const rawCodewords = Math.floor(qrNumRawDataModules(ver) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i += 1) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = qrReedSolomonRemainder(dat, blockEccLen);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+  const codewords: number[] = [];
+  for (let i = 0; i < blocks[0].length; i += 1) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) codewords.push(block[i]);
+    });
+  }
+
+  const size = ver * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i += 1) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+  const alignPos = qrAlignmentPositions(ver);
+  alignPos.forEach((ax, i) => {
+    alignPos.forEach((ay, j) => {
+      const isFinderCorner = (i === 0 && j === 0) || (i === 0 && j === alignPos.length - 1) || (i === alignPos.length - 1 && j === 0);
+      if (isFinderCorner) return;
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) setFunction(ax + dx, ay + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    });
+  });
+
+  const drawFormatBits = (mask: number) => {
+    // Level M has format bits 00.
+    const fmt = mask;
+    let rem = fmt;
+    for (let i = 0; i < 10; i += 1) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const formatBits = ((fmt << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((formatBits >>> i) & 1) !== 0;
+    for (let i = 0; i <= 5; i += 1) setFunction(8, i, bit(i));
+    setFunction(8, 7, bit(6));
+    setFunction(8, 8, bit(7));
+    setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i += 1) setFunction(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i += 1) setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i += 1) setFunction(8, size - 15 + i, bit(i));
+    setFunction(8, size - 8, true);
+  };
+  drawFormatBits(0);
+
+  if (ver >= 7) {
+    let rem = ver;
+    for (let i = 0; i < 12; i += 1) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const versionBits = (ver << 12) | rem;
+    for (let i = 0; i < 18; i += 1) {
+      const dark = ((versionBits >>> i) & 1) !== 0;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, dark);
+      setFunction(b, a, dark);
+    }
+  }
+
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert += 1) {
+      for (let j = 0; j < 2; j += 1) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) !== 0;
+          bitIndex += 1;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y += 1) {
+      for (let x = 0; x < size; x += 1) {
+        if (!isFunction[y][x] && qrMaskApplies(mask, x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+  let bestMask = 0;
+  let bestPenalty = Number.POSITIVE_INFINITY;
+  for (let mask = 0; mask < 8; mask += 1) {
+    applyMask(mask);
+    drawFormatBits(mask);
+    const penalty = qrPenaltyScore(modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(mask);
+  }
+  applyMask(bestMask);
+  drawFormatBits(bestMask);
+  return modules;
 }
 
-export function escapeHtml(input: string): string {
-  return input
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&#39;");
+export function qrCodeSvg(text: string, moduleSize = 6): string {
+  const modules = qrCodeMatrix(text);
+  const quiet = 4;
+  const dim = (modules.length + quiet * 2) * moduleSize;
+  let path = "";
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path += `M${(x + quiet) * moduleSize},${(y + quiet) * moduleSize}h${moduleSize}v${moduleSize}h-${moduleSize}z`;
+    });
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dim} ${dim}" width="${dim}" height="${dim}" shape-rendering="crispEdges"><rect width="100%" height="100%" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
 }
 
-function clipboardKey(slug: string): string {
-  return `${CLIPBOARD_KEY_PREFIX}${slug}`;
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const b of bytes) {
+    value = (value << 8) | b;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
 }
 
-export function sanitizeClipboardSlug(input: string): string | null {
-  const trimmed = input.trim();
-  if (!trimmed) return null;
-  if (trimmed.length > 64) return null;
-
-  const normalized = trimmed
-    .toLowerCase()
-    .replace(/\s+/g, "-");
-  if (!normalized) return null;
-  if (normalized.startsWith("-") || normalized.endsWith("-")) return null;
-  if (RESERVED_CLIPBOARD_SLUGS.has(normalized)) return null;
+export function base32Decode(input: string): Uint8Array | null {
+  const clean = input.replace(/[\s=]/g, "").toUpperCase();
+  const out: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const ch of clean) {
+    const idx = BASE32_ALPHABET.indexOf(ch);
+    if (idx < 0) return null;
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(out);
+}
 
-  const slugPattern = /^[\p{L}\p{N}_-]+$/u;
-  if (!slugPattern.test(normalized)) return null;
-  return normalized;
+// RFC 6238 TOTP (HMAC-SHA1) for a single time-step counter.
+export async function totpCode(secret: Uint8Array, counter: number, digits = TOTP_DIGITS): Promise<string> {
+  const msg = new Uint8Array(8);
+  const view = new DataView(msg.buffer);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+  const key = await crypto.subtle.importKey("raw", secret, { name: "HMAC", hash: "SHA-1" }, false, ["sign"]);
+  const h = new Uint8Array(await crypto.subtle.sign("HMAC", key, msg));
+  const offset = h[h.length - 1] & 0x0f;
+  const bin = ((h[offset] & 0x7f) << 24) | (h[offset + 1] << 16) | (h[offset + 2] << 8) | h[offset + 3];
+  return String(bin % 10 ** digits).padStart(digits, "0");
 }
 
-export function calculateClipboardStats(content: string): {
-  itemCount: number;
-  lineCount: number;
-  charCount: number;
-} {
-  const text = String(content || "");
-  const trimmed = text.trim();
-  if (!trimmed) {
-    return { itemCount: 0, lineCount: 0, charCount: 0 };
+// Returns the matching time-step counter, allowing one step of clock drift either way.
+export async function matchTotpCounter(secretBase32: string, code: string, nowMs = Date.now()): Promise<number | null> {
+  const secret = base32Decode(secretBase32);
+  const normalized = code.replace(/\s/g, "");
+  if (!secret || !new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return null;
+  const current = Math.floor(nowMs / 1000 / TOTP_PERIOD_SECONDS);
+  for (const counter of [current, current - 1, current + 1]) {
+    const expected = await totpCode(secret, counter);
+    if (timingSafeEqualBytes(new TextEncoder().encode(expected), new TextEncoder().encode(normalized))) return counter;
   }
-  const lines = text.split(/\r?\n/);
-  return {
-    itemCount: lines.filter((line) => line.trim() !== "").length,
-    lineCount: lines.length,
-    charCount: text.length,
-  };
+  return null;
 }
 
-export function normalizeClipboardPassword(input: unknown): string | null {
-  if (typeof input !== "string") return null;
-  const value = input.trim();
-  if (!value) return null;
-  if (value.length > 128) return null;
-  return value;
+export function totpUri(username: string, secretBase32: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${username}`);
+  return `otpauth://totp/${label}?secret=${secretBase32}&issuer=${encodeURIComponent(TOTP_ISSUER)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
 }
 
-export async function sha256Hex(input: string): Promise<string> {
-  const bytes = new TextEncoder().encode(input);
-  const digest = await crypto.subtle.digest("SHA-256", bytes);
-  return Array.from(new Uint8Array(digest))
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
+// Records written before PBKDF2 hashing store a bare unsalted SHA-256 hex digest.
+export function isLegacyClipboardPasswordHash(hash: string): boolean {
+  return !hash.startsWith(`${PASSWORD_HASH_SCHEME}$`);
 }
 
 export async function verifyClipboardPassword(hash: string, password: string): Promise<boolean> {
-  return (await sha256Hex(password)) === hash;
+  if (!isLegacyClipboardPasswordHash(hash)) return verifyPasswordHash(hash, password);
+  const encoder = new TextEncoder();
+  return timingSafeEqualBytes(encoder.encode(await sha256Hex(password)), encoder.encode(hash));
 }
 
 export function clipboardPasswordStorageKey(slug: string): string {
@@ -2327,13 +5274,27 @@ export function clipboardPasswordStorageKey(slug: string): string {
 
 async function authorizeClipboardRequest(
   request: Request,
+  env: Env,
   record: ClipboardRecord | null,
-): Promise<{ ok: boolean; normalized: string | null }> {
-  if (!record?.passwordHash) return { ok: true, normalized: null };
+): Promise<{ ok: boolean; normalized: string | null; retryAfter: number }> {
+  if (!record?.passwordHash) return { ok: true, normalized: null, retryAfter: 0 };
   const provided = normalizeClipboardPassword(request.headers.get("x-clip-password"));
-  if (!provided) return { ok: false, normalized: null };
+  if (!provided) return { ok: false, normalized: null, retryAfter: 0 };
+  const target = `clipboard:${record.slug}`;
+  const retryAfter = await authLockoutRemaining(env, clientIp(request), target);
+  if (retryAfter) return { ok: false, normalized: provided, retryAfter };
   const ok = await verifyClipboardPassword(record.passwordHash, provided);
-  return { ok, normalized: provided };
+  if (!ok) {
+    await recordAuthFailure(env, clientIp(request), target);
+    return { ok, normalized: provided, retryAfter: 0 };
+  }
+  await clearAuthFailures(env, target);
+  if (isLegacyClipboardPasswordHash(record.passwordHash)) {
+    // Upgrade in place so callers that write the record back keep the new hash.
+    record.passwordHash = await hashPassword(provided);
+    await env.CLIPBOARD.put(clipboardKey(record.slug), JSON.stringify(record));
+  }
+  return { ok, normalized: provided, retryAfter: 0 };
 }
 
 async function getClipboardRecord(env: Env, slug: string): Promise<ClipboardRecord | null> {
@@ -2364,16 +5325,841 @@ async function listClipboards(env: Env): Promise<ClipboardSummary[]> {
 
 async function getGuestLinkById(env: Env, id: string): Promise<GuestLinkRow | null> {
   return env.DB.prepare(
-    "SELECT id, label, created_time, max_file_bytes, max_file_lifetime_days, max_file_uploads, url_expires, upload_count FROM guest_links WHERE id = ?",
+    "SELECT id, label, created_time, max_file_bytes, max_file_lifetime_days, max_file_uploads, url_expires, upload_count, created_by FROM guest_links WHERE id = ?",
   )
     .bind(id)
     .first<GuestLinkRow>();
 }
 
+// Unfinished guest multipart uploads hold a slot so parallel inits can't overshoot max_file_uploads.
+async function guestUploadsUsed(env: Env, link: GuestLinkRow): Promise<number> {
+  const pending = await env.DB.prepare("SELECT COUNT(*) AS count FROM multipart_uploads WHERE guest_link_id = ?")
+    .bind(link.id)
+    .first<{ count: number }>();
+  return (link.upload_count || 0) + Number(pending?.count || 0);
+}
+
+async function getUserById(env: Env, id: string): Promise<UserRow | null> {
+  return env.DB.prepare("SELECT id, username, role, created_time FROM users WHERE id = ?")
+    .bind(id)
+    .first<UserRow>();
+}
+
+// Returns null when the header is absent or malformed (serve the whole object), or "unsatisfiable" for a 416.
+// Overlapping and adjacent ranges are merged so a request can't multiply the bytes it pulls from R2.
+export function parseRangeHeader(header: string | null, size: number): ByteRange[] | "unsatisfiable" | null {
+  if (!header) return null;
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) return null;
+  const specs = match[1].split(",").map((spec) => spec.trim()).filter(Boolean);
+  if (!specs.length || specs.length > MAX_BYTE_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const m = /^(\d*)-(\d*)$/.exec(spec);
+    if (!m || (!m[1] && !m[2])) return null;
+    if (!m[1]) {
+      const suffix = Number(m[2]);
+      if (suffix > 0 && size > 0) ranges.push({ start: Math.max(0, size - suffix), end: size - 1 });
+      continue;
+    }
+    const start = Number(m[1]);
+    const last = m[2] ? Number(m[2]) : size - 1;
+    if (m[2] && last < start) return null;
+    if (start >= size) continue;
+    ranges.push({ start, end: Math.min(last, size - 1) });
+  }
+  if (!ranges.length) return "unsatisfiable";
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [ranges[0]];
+  for (const range of ranges.slice(1)) {
+    const prev = merged[merged.length - 1];
+    if (range.start <= prev.end + 1) prev.end = Math.max(prev.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged;
+}
+
+// RFC 6266 header with an ASCII `filename` fallback and an RFC 5987 `filename*` for everything else.
+export function contentDisposition(type: "inline" | "attachment", filename: string): string {
+  const clean = filename.replace(/[\u0000-\u001f\u007f]/g, "").trim();
+  if (!clean) return type;
+  const fallback = clean.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  if (fallback === clean) return `${type}; filename="${fallback}"`;
+  const encoded = encodeURIComponent(clean).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// `?as=` may rename the saved file but never smuggle in a path.
+export function sanitizeDownloadFilename(input: string | null): string | null {
+  if (!input) return null;
+  const name = input.replace(/[\u0000-\u001f\u007f]/g, "").split(/[\\/]/).pop()?.trim().slice(0, 255) || "";
+  return name && name !== "." && name !== ".." ? name : null;
+}
+
+// D1's CURRENT_TIMESTAMP is UTC without a zone marker; Date would read it as local time.
+function sqlTimestampMs(value: string | null): number | null {
+  if (!value) return null;
+  const iso = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(" ", "T")}Z` : value;
+  const ms = new Date(iso).getTime();
+  return Number.isNaN(ms) ? null : ms;
+}
+
+function etagMatches(header: string, etag: string, weak: boolean): boolean {
+  const opaque = (tag: string) => (weak ? tag.trim().replace(/^W\//, "") : tag.trim());
+  return header.split(",").some((tag) => tag.trim() === "*" || opaque(tag) === opaque(etag));
+}
+
+// RFC 9110 §13.1.1-13.1.3: If-None-Match wins over If-Modified-Since; dates compare at one-second precision.
+export function isNotModified(headers: Headers, etag: string, lastModifiedMs: number | null): boolean {
+  const ifNoneMatch = headers.get("If-None-Match");
+  if (ifNoneMatch) return etagMatches(ifNoneMatch, etag, true);
+  const ifModifiedSince = headers.get("If-Modified-Since");
+  if (!ifModifiedSince || lastModifiedMs === null) return false;
+  const since = new Date(ifModifiedSince).getTime();
+  if (Number.isNaN(since)) return false;
+  return Math.floor(lastModifiedMs / 1000) <= Math.floor(since / 1000);
+}
+
+// A Range only applies while the If-Range validator (strong etag or exact date) still matches.
+export function ifRangeAllowsRange(header: string | null, etag: string, lastModifiedMs: number | null): boolean {
+  if (!header) return true;
+  const value = header.trim();
+  if (value.startsWith('"') || value.startsWith("W/")) return !value.startsWith("W/") && etagMatches(value, etag, false);
+  const date = new Date(value).getTime();
+  return lastModifiedMs !== null && !Number.isNaN(date) && Math.floor(lastModifiedMs / 1000) === Math.floor(date / 1000);
+}
+
+// Atomically takes one download from a limited entry; null once the limit is used up.
+export async function claimEntryDownload(env: Env, id: string): Promise<{ remaining: number } | null> {
+  const row = await env.DB.prepare(
+    `UPDATE entries SET served_downloads = served_downloads + 1, last_served_at = ?
+     WHERE id = ? AND max_downloads IS NOT NULL AND served_downloads < max_downloads
+     RETURNING max_downloads - served_downloads AS remaining`,
+  )
+    .bind(new Date().toISOString(), id)
+    .first<{ remaining: number }>();
+  return row ? { remaining: Number(row.remaining) } : null;
+}
+
+// Gives back a download taken by claimEntryDownload when the response it was claimed for is never sent.
+export async function releaseEntryDownload(env: Env, id: string): Promise<void> {
+  await env.DB.prepare(
+    "UPDATE entries SET served_downloads = served_downloads - 1 WHERE id = ? AND max_downloads IS NOT NULL AND served_downloads > 0",
+  )
+    .bind(id)
+    .run();
+}
+
+// Runs `onDone` once the whole body has been handed to the client; aborted streams are left to cleanup.
+function afterBodyStreamed(response: Response, onDone: () => void): Response {
+  if (!response.body) {
+    onDone();
+    return response;
+  }
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>({ flush: onDone });
+  response.body.pipeTo(writable).catch(() => {});
+  return new Response(readable, response);
+}
+
+// Limited entries answer every request with `Accept-Ranges: none`: clients that see `bytes` open parallel range
+// connections, and each whole-file answer would claim a download.
+function entryObjectHeaders(obj: R2Object, entry: EntryRow, disposition: string, allowRanges: boolean): Headers {
+  const h = withCors();
+  obj.writeHttpMetadata(h);
+  h.set("Content-Disposition", disposition);
+  if (entry.content_type) h.set("Content-Type", entry.content_type);
+  h.set("Accept-Ranges", allowRanges ? "bytes" : "none");
+  h.set("ETag", obj.httpEtag);
+  const lastModified = sqlTimestampMs(entry.upload_time);
+  if (lastModified !== null) h.set("Last-Modified", new Date(lastModified).toUTCString());
+  // Repr-Digest covers the whole file, so it stays valid on 206 and 304 responses.
+  if (entry.sha256) h.set("Repr-Digest", sha256DigestField(entry.sha256));
+  return h;
+}
+
+// Streams an entry's object, honouring HEAD, conditional requests and `Range`.
+// `wholeFile` is true only when the response carries the entire object (a full 200, or a single range spanning
+// every byte), i.e. the ones that count as downloads; probes like `bytes=0-0` and player chunks don't.
+async function entryObjectResponse(
+  request: Request,
+  env: Env,
+  entry: EntryRow,
+  disposition: string,
+  options: { allowRanges?: boolean } = {},
+): Promise<{ response: Response; wholeFile: boolean } | null> {
+  const isHead = request.method === "HEAD";
+  const allowRanges = options.allowRanges !== false;
+  const conditional = request.headers.has("If-None-Match") || request.headers.has("If-Modified-Since");
+  let rangeHeader = allowRanges ? request.headers.get("Range") : null;
+  const key = entryObjectKey(entry);
+  const head = isHead || conditional || rangeHeader ? await env.BUCKET.head(key) : null;
+  if ((isHead || conditional || rangeHeader) && !head) return null;
+
+  if (head) {
+    const lastModified = sqlTimestampMs(entry.upload_time);
+    if (isNotModified(request.headers, head.httpEtag, lastModified)) {
+      const h = entryObjectHeaders(head, entry, disposition, allowRanges);
+      return { response: new Response(null, { status: 304, headers: h }), wholeFile: false };
+    }
+    if (isHead) {
+      const h = entryObjectHeaders(head, entry, disposition, allowRanges);
+      h.set("Content-Length", String(head.size));
+      if (entry.sha256) h.set("Content-Digest", sha256DigestField(entry.sha256));
+      return { response: new Response(null, { headers: h }), wholeFile: false };
+    }
+    if (!ifRangeAllowsRange(request.headers.get("If-Range"), head.httpEtag, lastModified)) rangeHeader = null;
+  }
+  const ranges = head ? parseRangeHeader(rangeHeader, head.size) : null;
+
+  if (!head || !ranges) {
+    const obj = await env.BUCKET.get(key);
+    if (!obj) return null;
+    const h = entryObjectHeaders(obj, entry, disposition, allowRanges);
+    if (entry.sha256) h.set("Content-Digest", sha256DigestField(entry.sha256));
+    return { response: new Response(obj.body, { headers: h }), wholeFile: true };
+  }
+
+  if (ranges === "unsatisfiable") {
+    const h = entryObjectHeaders(head, entry, disposition, allowRanges);
+    h.set("Content-Range", `bytes */${head.size}`);
+    return { response: new Response(null, { status: 416, headers: h }), wholeFile: false };
+  }
+
+  const wholeFile = ranges.length === 1 && ranges[0].start === 0 && ranges[0].end === head.size - 1;
+  if (ranges.length === 1) {
+    const [range] = ranges;
+    const obj = await env.BUCKET.get(key, { range: { offset: range.start, length: range.end - range.start + 1 } });
+    if (!obj) return null;
+    const h = entryObjectHeaders(obj, entry, disposition, allowRanges);
+    h.set("Content-Range", `bytes ${range.start}-${range.end}/${head.size}`);
+    return { response: new Response(obj.body, { status: 206, headers: h }), wholeFile };
+  }
+
+  const h = entryObjectHeaders(head, entry, disposition, allowRanges);
+  const partType = h.get("Content-Type") || "application/octet-stream";
+  const boundary = `picoshare-${randomToken(12)}`;
+  h.set("Content-Type", `multipart/byteranges; boundary=${boundary}`);
+  const encoder = new TextEncoder();
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  // Parts are fetched one at a time while the client reads, so only one R2 stream is open at once.
+  const pump = async () => {
+    for (const [i, range] of ranges.entries()) {
+      const part = await env.BUCKET.get(key, { range: { offset: range.start, length: range.end - range.start + 1 } });
+      if (!part) throw new Error("object disappeared while streaming");
+      await writer.write(
+        encoder.encode(
+          `${i ? "\r\n" : ""}--${boundary}\r\nContent-Type: ${partType}\r\nContent-Range: bytes ${range.start}-${range.end}/${head.size}\r\n\r\n`,
+        ),
+      );
+      const reader = part.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        await writer.write(value);
+      }
+    }
+    await writer.write(encoder.encode(`\r\n--${boundary}--\r\n`));
+    await writer.close();
+  };
+  pump().catch((err) => writer.abort(err).catch(() => {}));
+  return { response: new Response(readable, { status: 206, headers: h }), wholeFile };
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array, previous = 0): number {
+  let c = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i += 1) c = CRC32_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// Archive member names must be unique and flat; slashes would create folders or escape the extract dir.
+export function uniqueZipNames(filenames: string[]): string[] {
+  const used = new Set<string>();
+  return filenames.map((filename) => {
+    let base = filename.replace(/[\u0000-\u001f\u007f]/g, "").replace(/[\\/]/g, "_").trim();
+    if (!base || /^\.+$/.test(base)) base = "file";
+    const dot = base.lastIndexOf(".");
+    const stem = dot > 0 ? base.slice(0, dot) : base;
+    const ext = dot > 0 ? base.slice(dot) : "";
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n += 1) name = `${stem} (${n})${ext}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function zipDosDateTime(ms: number | null): { date: number; time: number } {
+  const d = new Date(ms ?? Date.now());
+  if (d.getUTCFullYear() < 1980) return { date: (1 << 5) | 1, time: 0 };
+  return {
+    date: ((d.getUTCFullYear() - 1980) << 9) | ((d.getUTCMonth() + 1) << 5) | d.getUTCDate(),
+    time: (d.getUTCHours() << 11) | (d.getUTCMinutes() << 5) | Math.floor(d.getUTCSeconds() / 2),
+  };
+}
+
+function zipRecord(fields: ZipField[]): Uint8Array {
+  const out = new Uint8Array(fields.reduce((n, f) => n + (f instanceof Uint8Array ? f.length : f[0]), 0));
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  for (const field of fields) {
+    if (field instanceof Uint8Array) {
+      out.set(field, offset);
+      offset += field.length;
+      continue;
+    }
+    const [width, value] = field;
+    if (width === 2) view.setUint16(offset, value, true);
+    else if (width === 4) view.setUint32(offset, value, true);
+    else {
+      view.setUint32(offset, value % 2 ** 32, true);
+      view.setUint32(offset + 4, Math.floor(value / 2 ** 32), true);
+    }
+    offset += width;
+  }
+  return out;
+}
+
+// Streams a stored (uncompressed) ZIP, opening one source at a time while the client reads.
+// Members of 4 GiB or more, or starting past 4 GiB, get ZIP64 extra fields; the archive gets a
+// ZIP64 end record once the entry count, directory size or directory offset overflow.
+export function zipArchiveStream(sources: ZipSource[]): ReadableStream<Uint8Array> {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  const emit = async (chunk: Uint8Array) => {
+    offset += chunk.length;
+    await writer.write(chunk);
+  };
+
+  const pump = async () => {
+    for (const source of sources) {
+      const name = encoder.encode(source.name);
+      const { date, time } = zipDosDateTime(source.modifiedMs);
+      const headerOffset = offset;
+      const zip64 = source.size >= ZIP64_LIMIT;
+      const offset64 = headerOffset >= ZIP64_LIMIT;
+      const version = zip64 || offset64 ? 45 : 20;
+      const localExtra: ZipField[] = zip64 ? [[2, 1], [2, 16], [8, 0], [8, 0]] : [];
+      await emit(
+        zipRecord([
+          [4, 0x04034b50], [2, version], [2, ZIP_FLAGS], [2, 0], [2, time], [2, date],
+          [4, 0], [4, zip64 ? ZIP64_LIMIT : 0], [4, zip64 ? ZIP64_LIMIT : 0],
+          [2, name.length], [2, zip64 ? 20 : 0], name, ...localExtra,
+        ]),
+      );
+
+      const body = await source.open();
+      if (!body) throw new Error(`${source.name} disappeared while streaming`);
+      const reader = body.getReader();
+      let crc = 0;
+      let size = 0;
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        crc = crc32(value, crc);
+        size += value.length;
+        await emit(value);
+      }
+      // The ZIP64 decision was made from the declared size, so a different length would corrupt the archive.
+      if (size !== source.size) throw new Error(`${source.name} is ${size} bytes, expected ${source.size}`);
+      await emit(zipRecord([[4, 0x08074b50], [4, crc], [zip64 ? 8 : 4, size], [zip64 ? 8 : 4, size]]));
+
+      const extra: ZipField[] = [];
+      if (zip64) extra.push([8, size], [8, size]);
+      if (offset64) extra.push([8, headerOffset]);
+      const extraFields: ZipField[] = extra.length ? [[2, 1], [2, extra.length * 8], ...extra] : [];
+      central.push(
+        zipRecord([
+          [4, 0x02014b50], [2, version], [2, version], [2, ZIP_FLAGS], [2, 0], [2, time], [2, date],
+          [4, crc], [4, zip64 ? ZIP64_LIMIT : size], [4, zip64 ? ZIP64_LIMIT : size],
+          [2, name.length], [2, extra.length ? 4 + extra.length * 8 : 0], [2, 0], [2, 0], [2, 0], [4, 0],
+          [4, offset64 ? ZIP64_LIMIT : headerOffset], name, ...extraFields,
+        ]),
+      );
+    }
+
+    const directoryOffset = offset;
+    for (const record of central) await emit(record);
+    const directorySize = offset - directoryOffset;
+    const count = sources.length;
+    if (count >= 0xffff || directorySize >= ZIP64_LIMIT || directoryOffset >= ZIP64_LIMIT) {
+      const endOffset = offset;
+      await emit(
+        zipRecord([
+          [4, 0x06064b50], [8, 44], [2, 45], [2, 45], [4, 0], [4, 0],
+          [8, count], [8, count], [8, directorySize], [8, directoryOffset],
+        ]),
+      );
+      await emit(zipRecord([[4, 0x07064b50], [4, 0], [8, endOffset], [4, 1]]));
+    }
+    await emit(
+      zipRecord([
+        [4, 0x06054b50], [2, 0], [2, 0], [2, Math.min(count, 0xffff)], [2, Math.min(count, 0xffff)],
+        [4, Math.min(directorySize, ZIP64_LIMIT)], [4, Math.min(directoryOffset, ZIP64_LIMIT)], [2, 0],
+      ]),
+    );
+    await writer.close();
+  };
+  pump().catch((err) => writer.abort(err).catch(() => {}));
+  return readable;
+}
+
+// Entries stored before deduplication keep their bytes under the entry id.
+function entryObjectKey(entry: EntryRow): string {
+  return entry.object_key ?? entry.id;
+}
+
+// Takes a reference on the blob with this hash, registering `objectKey` for it when the hash is new.
+// Callers write `objectKey` before claiming, so a blob row never points at an object that isn't there yet.
+// `created` means the caller's object now backs the blob; otherwise the caller should delete its copy.
+// A row whose references already dropped to zero is being released, so the caller's object replaces it.
+async function claimBlob(
+  env: Env,
+  hash: string,
+  objectKey: string,
+  size: number,
+): Promise<{ objectKey: string; created: boolean }> {
+  const row = await env.DB.prepare(
+    `INSERT INTO blobs (hash, object_key, size, ref_count) VALUES (?, ?, ?, 1)
+     ON CONFLICT(hash) DO UPDATE SET
+       object_key = CASE WHEN ref_count <= 0 THEN excluded.object_key ELSE object_key END,
+       ref_count = CASE WHEN ref_count <= 0 THEN 1 ELSE ref_count + 1 END
+     RETURNING object_key, ref_count`,
+  )
+    .bind(hash, objectKey, size)
+    .first<{ object_key: string; ref_count: number }>();
+  if (!row) throw new Error("failed to register blob");
+  return { objectKey: row.object_key, created: Number(row.ref_count) === 1 };
+}
+
+// Drops one reference; the R2 object goes away with the last one.
+// Once the count reaches zero no claim can pick that object up again (claimBlob swaps in its own object),
+// so it is safe to delete even if the row was re-claimed in the meantime; only an unreferenced row is removed.
+async function releaseBlob(env: Env, hash: string): Promise<void> {
+  const row = await env.DB.prepare(
+    "UPDATE blobs SET ref_count = ref_count - 1 WHERE hash = ? RETURNING object_key, ref_count",
+  )
+    .bind(hash)
+    .first<{ object_key: string; ref_count: number }>();
+  if (!row || Number(row.ref_count) > 0) return;
+  await env.DB.prepare("DELETE FROM blobs WHERE hash = ? AND ref_count <= 0").bind(hash).run();
+  await env.BUCKET.delete(row.object_key);
+}
+
+// Takes another reference on a blob that is still live; null when the hash is unknown or being released.
+async function addBlobReference(env: Env, hash: string): Promise<string | null> {
+  const row = await env.DB.prepare(
+    "UPDATE blobs SET ref_count = ref_count + 1 WHERE hash = ? AND ref_count > 0 RETURNING object_key",
+  )
+    .bind(hash)
+    .first<{ object_key: string }>();
+  return row?.object_key ?? null;
+}
+
+// Stores an in-memory upload under its SHA-256. Known content only gains a reference; new content is written
+// to `objectKey` first and claimed afterwards, so a failed put leaves nothing behind to roll back.
+export async function storeBlob(
+  env: Env,
+  hash: string,
+  objectKey: string,
+  bytes: ArrayBuffer | Uint8Array,
+  contentType: string,
+): Promise<{ hash: string; objectKey: string }> {
+  const existing = await addBlobReference(env, hash);
+  if (existing) return { hash, objectKey: existing };
+  await env.BUCKET.put(objectKey, bytes, { httpMetadata: { contentType } });
+  const blob = await claimBlob(env, hash, objectKey, bytes.byteLength);
+  if (!blob.created) await env.BUCKET.delete(objectKey);
+  return { hash, objectKey: blob.objectKey };
+}
+
+async function objectSha256(env: Env, key: string): Promise<string> {
+  const obj = await env.BUCKET.get(key);
+  if (!obj) throw new Error("object disappeared while hashing");
+  const digest = new crypto.DigestStream("SHA-256");
+  await obj.body.pipeTo(digest);
+  return bytesToHex(new Uint8Array(await digest.digest));
+}
+
 async function deleteEntryById(env: Env, id: string): Promise<void> {
-  await env.BUCKET.delete(id);
+  const stored = await env.DB.prepare("SELECT sha256 FROM entries WHERE id = ?")
+    .bind(id)
+    .first<{ sha256: string | null }>();
   await env.DB.prepare("DELETE FROM download_events WHERE entry_id = ?").bind(id).run();
+  await env.DB.prepare("DELETE FROM signed_url_uses WHERE entry_id = ?").bind(id).run();
   await env.DB.prepare("DELETE FROM entries WHERE id = ?").bind(id).run();
+  if (stored?.sha256) await releaseBlob(env, stored.sha256);
+  else await env.BUCKET.delete(id);
+}
+
+async function insertUploadedEntry(env: Env, upload: UploadedEntry, hash: string, objectKey: string): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO entries
+      (id, filename, content_type, size, expiration_time, note, created_by, guest_link_id, password_hash, max_downloads, alias,
+       sha256, object_key, relative_path)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  )
+    .bind(
+      upload.entry_id,
+      upload.filename,
+      upload.content_type || "application/octet-stream",
+      upload.size || 0,
+      upload.expiration_time,
+      upload.note,
+      upload.created_by,
+      upload.guest_link_id,
+      upload.password_hash,
+      upload.max_downloads,
+      upload.alias,
+      hash,
+      objectKey,
+      upload.relative_path,
+    )
+    .run();
+}
+
+async function uploadMultipartPart(
+  env: Env,
+  upload: MultipartUploadRow,
+  partNumber: number,
+  bytes: ArrayBuffer | Uint8Array,
+): Promise<R2UploadedPart> {
+  const part = await env.BUCKET.resumeMultipartUpload(upload.entry_id, upload.upload_id).uploadPart(partNumber, bytes);
+  await env.DB.prepare(
+    `INSERT OR REPLACE INTO multipart_upload_parts (upload_id, part_number, etag)
+     VALUES (?, ?, ?)`,
+  )
+    .bind(upload.upload_id, part.partNumber, part.etag)
+    .run();
+  return part;
+}
+
+async function deleteMultipartUploadRows(env: Env, uploadId: string): Promise<void> {
+  await env.DB.prepare("DELETE FROM multipart_upload_parts WHERE upload_id = ?").bind(uploadId).run();
+  await env.DB.prepare("DELETE FROM multipart_uploads WHERE upload_id = ?").bind(uploadId).run();
+}
+
+// Stitches the recorded parts into an entry. The parts were written under the entry id; that object is
+// kept unless the same bytes are already stored, and dropped on a digest mismatch.
+async function completeMultipartEntry(
+  env: Env,
+  upload: MultipartUploadRow,
+  expected: string | null,
+): Promise<{ sha256: string } | { error: string; status: number; sha256?: string }> {
+  const parts = await env.DB.prepare(
+    `SELECT part_number AS partNumber, etag
+     FROM multipart_upload_parts
+     WHERE upload_id = ?
+     ORDER BY part_number ASC`,
+  )
+    .bind(upload.upload_id)
+    .all<{ partNumber: number; etag: string }>();
+  if (!parts.results.length) return { error: "no uploaded parts found", status: 400 };
+
+  const multipart = env.BUCKET.resumeMultipartUpload(upload.entry_id, upload.upload_id);
+  const completed = await multipart.complete(parts.results);
+  // The declared size is what limits (guest max_file_bytes) were checked against, so it has to hold.
+  if (completed.size !== upload.size) {
+    await env.BUCKET.delete(upload.entry_id);
+    await deleteMultipartUploadRows(env, upload.upload_id);
+    return { error: "uploaded size does not match the declared size", status: 400 };
+  }
+  const hash = await objectSha256(env, upload.entry_id);
+  if (expected && expected !== hash) {
+    await env.BUCKET.delete(upload.entry_id);
+    await deleteMultipartUploadRows(env, upload.upload_id);
+    return { error: "sha256 mismatch", status: 422, sha256: hash };
+  }
+  const blob = await claimBlob(env, hash, upload.entry_id, completed.size);
+  if (!blob.created) await env.BUCKET.delete(upload.entry_id);
+  await insertUploadedEntry(env, upload, hash, blob.objectKey);
+  await deleteMultipartUploadRows(env, upload.upload_id);
+  return { sha256: hash };
+}
+
+async function abortMultipartUpload(env: Env, upload: MultipartUploadRow): Promise<void> {
+  try {
+    await env.BUCKET.resumeMultipartUpload(upload.entry_id, upload.upload_id).abort();
+  } catch {
+    // Ignore abort failures so local metadata can still be cleaned.
+  }
+  if (upload.tus_offset !== null) await env.BUCKET.delete(`${TUS_TAIL_PREFIX}${upload.upload_id}`);
+  await deleteMultipartUploadRows(env, upload.upload_id);
+}
+
+// Appends a tus PATCH body. R2 wants every part but the last to be the same size, so the stream is cut into
+// MULTIPART_CHUNK_SIZE_BYTES parts and a short remainder is parked under TUS_TAIL_PREFIX until the next PATCH.
+// Progress is saved after every part, so a dropped connection only loses what was never acknowledged.
+// Bytes past Upload-Length are ignored.
+async function appendTusUpload(
+  env: Env,
+  upload: MultipartUploadRow,
+  body: ReadableStream<Uint8Array>,
+): Promise<{ offset: number } | { error: string; status: number }> {
+  const tailKey = `${TUS_TAIL_PREFIX}${upload.upload_id}`;
+  const buffer = new Uint8Array(MULTIPART_CHUNK_SIZE_BYTES);
+  let filled = 0;
+  let parts = upload.tus_parts;
+  if (upload.tus_tail_size > 0) {
+    const tail = await env.BUCKET.get(tailKey);
+    if (!tail) return { error: "upload state is missing", status: 500 };
+    buffer.set(new Uint8Array(await tail.arrayBuffer()).subarray(0, upload.tus_tail_size));
+    filled = upload.tus_tail_size;
+  }
+
+  const saveProgress = async () => {
+    await env.DB.prepare(
+      "UPDATE multipart_uploads SET tus_offset = ?, tus_parts = ?, tus_tail_size = ? WHERE upload_id = ?",
+    )
+      .bind(parts * MULTIPART_CHUNK_SIZE_BYTES + filled, parts, filled, upload.upload_id)
+      .run();
+  };
+  const flushPart = async () => {
+    await uploadMultipartPart(env, upload, parts + 1, buffer.subarray(0, filled));
+    parts += 1;
+    filled = 0;
+    await saveProgress();
+  };
+
+  let remaining = upload.size - (upload.tus_offset ?? 0);
+  const reader = body.getReader();
+  try {
+    while (remaining > 0) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      let chunk = value.subarray(0, Math.min(value.byteLength, remaining));
+      remaining -= chunk.byteLength;
+      while (chunk.byteLength > 0 || filled === buffer.byteLength) {
+        const n = Math.min(chunk.byteLength, buffer.byteLength - filled);
+        buffer.set(chunk.subarray(0, n), filled);
+        filled += n;
+        chunk = chunk.subarray(n);
+        if (filled === buffer.byteLength) await flushPart();
+      }
+    }
+    if (remaining === 0) await reader.cancel().catch(() => undefined);
+  } catch {
+    // The client went away or a part failed; keep whatever was received so the upload can resume from there.
+  }
+
+  if (parts * MULTIPART_CHUNK_SIZE_BYTES + filled === upload.size) {
+    if (filled > 0) await flushPart();
+    await env.BUCKET.delete(tailKey);
+    const result = await completeMultipartEntry(env, upload, upload.expected_sha256);
+    return "error" in result ? result : { offset: upload.size };
+  }
+  if (filled > 0) await env.BUCKET.put(tailKey, buffer.subarray(0, filled));
+  await saveProgress();
+  return { offset: parts * MULTIPART_CHUNK_SIZE_BYTES + filled };
+}
+
+// Pipes a body of a declared length into R2 under `key`, counting and hashing the bytes on the way through.
+// A body that runs past `length` or `limit` (0 = unlimited) errors the stream, which fails the put, so no
+// object is left behind; the key is deleted anyway in case the put landed before the error surfaced.
+async function streamToObject(
+  env: Env,
+  key: string,
+  body: ReadableStream<Uint8Array>,
+  length: number,
+  limit: number,
+  contentType: string,
+): Promise<{ sha256: string } | { error: string; status: number }> {
+  const digest = new crypto.DigestStream("SHA-256");
+  const digestWriter = digest.getWriter();
+  let received = 0;
+  let tooLarge = false;
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > length || (limit > 0 && received > limit)) {
+        tooLarge = true;
+        throw new Error("body exceeds the declared length or the upload limit");
+      }
+      await digestWriter.write(chunk);
+      controller.enqueue(chunk);
+    },
+  });
+  const fixed = new FixedLengthStream(length);
+  const [piped, put] = await Promise.allSettled([
+    body.pipeThrough(counter).pipeTo(fixed.writable),
+    env.BUCKET.put(key, fixed.readable, { httpMetadata: { contentType } }),
+  ]);
+  if (piped.status === "rejected" || put.status === "rejected" || received !== length) {
+    await env.BUCKET.delete(key);
+    return tooLarge
+      ? { error: "upload exceeds its Content-Length or the size limit", status: 413 }
+      : { error: "upload body ended early", status: 400 };
+  }
+  await digestWriter.close();
+  return { sha256: bytesToHex(new Uint8Array(await digest.digest)) };
+}
+
+// Streams a single-request upload into a new entry, deduplicating it like any other upload.
+async function streamUploadedEntry(
+  env: Env,
+  entry: UploadedEntry,
+  body: ReadableStream<Uint8Array>,
+  limit: number,
+  expected: string | null,
+): Promise<{ sha256: string } | { error: string; status: number; sha256?: string }> {
+  const streamed = await streamToObject(env, entry.entry_id, body, entry.size, limit, entry.content_type);
+  if ("error" in streamed) return streamed;
+  if (expected && expected !== streamed.sha256) {
+    await env.BUCKET.delete(entry.entry_id);
+    return { error: "sha256 mismatch", status: 422, sha256: streamed.sha256 };
+  }
+  const blob = await claimBlob(env, streamed.sha256, entry.entry_id, entry.size);
+  if (!blob.created) await env.BUCKET.delete(entry.entry_id);
+  await insertUploadedEntry(env, entry, streamed.sha256, blob.objectKey);
+  return { sha256: streamed.sha256 };
+}
+
+// Streams a large or unsized body into an R2 multipart upload, one MULTIPART_CHUNK_SIZE_BYTES part at a time.
+// The upload is registered in multipart_uploads while it runs so an interrupted request can still be cleaned up.
+// `entry.size` is the declared Content-Length, or null when the body is chunked.
+async function streamMultipartEntry(
+  env: Env,
+  entry: Omit<UploadedEntry, "size"> & { size: number | null },
+  body: ReadableStream<Uint8Array>,
+  limit: number,
+  expected: string | null,
+): Promise<{ sha256: string } | { error: string; status: number; sha256?: string }> {
+  const created = await env.BUCKET.createMultipartUpload(entry.entry_id, {
+    httpMetadata: { contentType: entry.content_type },
+  });
+  const upload: MultipartUploadRow = {
+    ...entry,
+    size: entry.size ?? 0,
+    upload_id: created.uploadId,
+    expected_sha256: expected,
+    tus_offset: null,
+    tus_parts: 0,
+    tus_tail_size: 0,
+    expires_at: null,
+    fingerprint: null,
+    chunk_size: MULTIPART_CHUNK_SIZE_BYTES,
+    server_streamed: 1,
+  };
+  await env.DB.prepare(
+    `INSERT INTO multipart_uploads
+      (upload_id, entry_id, filename, content_type, size, expiration_time, note, created_by, password_hash, max_downloads, alias,
+       expected_sha256, chunk_size, relative_path, server_streamed)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)`,
+  )
+    .bind(
+      upload.upload_id,
+      upload.entry_id,
+      upload.filename,
+      upload.content_type,
+      upload.size,
+      upload.expiration_time,
+      upload.note,
+      upload.created_by,
+      upload.password_hash,
+      upload.max_downloads,
+      upload.alias,
+      expected,
+      MULTIPART_CHUNK_SIZE_BYTES,
+      upload.relative_path,
+    )
+    .run();
+
+  const buffer = new Uint8Array(MULTIPART_CHUNK_SIZE_BYTES);
+  let filled = 0;
+  let parts = 0;
+  let received = 0;
+  const reader = body.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+      if ((entry.size !== null && received > entry.size) || (limit > 0 && received > limit)) {
+        await reader.cancel().catch(() => undefined);
+        await abortMultipartUpload(env, upload);
+        return { error: "upload exceeds its Content-Length or the size limit", status: 413 };
+      }
+      let chunk = value;
+      while (chunk.byteLength > 0) {
+        const n = Math.min(chunk.byteLength, buffer.byteLength - filled);
+        buffer.set(chunk.subarray(0, n), filled);
+        filled += n;
+        chunk = chunk.subarray(n);
+        if (filled === buffer.byteLength) {
+          parts += 1;
+          await uploadMultipartPart(env, upload, parts, buffer);
+          filled = 0;
+        }
+      }
+    }
+    if (filled > 0) {
+      parts += 1;
+      await uploadMultipartPart(env, upload, parts, buffer.subarray(0, filled));
+    }
+  } catch {
+    await abortMultipartUpload(env, upload);
+    return { error: "upload body ended early", status: 400 };
+  }
+  if (received === 0) {
+    await abortMultipartUpload(env, upload);
+    return { error: "empty upload body", status: 400 };
+  }
+  if (entry.size !== null && received !== entry.size) {
+    await abortMultipartUpload(env, upload);
+    return { error: "upload body ended early", status: 400 };
+  }
+  upload.size = received;
+  return completeMultipartEntry(env, upload, expected);
+}
+
+// Aborts multipart uploads started more than `maxAgeHours` ago that never completed, releasing their R2 parts
+// and any guest upload slot they held. tus uploads carry their own Upload-Expires and are left to
+// cleanupExpiredTusUploads.
+export async function cleanupStaleMultipartUploads(
+  env: Env,
+  nowIso = new Date().toISOString(),
+  maxAgeHours = DEFAULT_STALE_UPLOAD_HOURS,
+  limit = 100,
+): Promise<number> {
+  const res = await env.DB.prepare(
+    `SELECT ${MULTIPART_UPLOAD_COLUMNS}
+     FROM multipart_uploads
+     WHERE tus_offset IS NULL AND created_time <= ?
+     ORDER BY created_time ASC
+     LIMIT ?`,
+  )
+    .bind(staleUploadCutoff(nowIso, maxAgeHours), Math.max(1, Math.min(1000, limit)))
+    .all<MultipartUploadRow>();
+  for (const upload of res.results) {
+    await abortMultipartUpload(env, upload);
+  }
+  return res.results.length;
+}
+
+export async function cleanupExpiredTusUploads(env: Env, nowIso: string, limit = 100): Promise<number> {
+  const res = await env.DB.prepare(
+    `SELECT ${MULTIPART_UPLOAD_COLUMNS} FROM multipart_uploads WHERE expires_at IS NOT NULL AND expires_at <= ? LIMIT ?`,
+  )
+    .bind(nowIso, limit)
+    .all<MultipartUploadRow>();
+  for (const upload of res.results) {
+    await abortMultipartUpload(env, upload);
+  }
+  return res.results.length;
 }
 
 export async function cleanupExpiredEntries(
@@ -2381,15 +6167,16 @@ export async function cleanupExpiredEntries(
   nowIso = new Date().toISOString(),
   limit = 100,
 ): Promise<number> {
+  const graceIso = new Date(new Date(nowIso).getTime() - EXHAUSTED_ENTRY_GRACE_SECONDS * 1000).toISOString();
   const res = await env.DB.prepare(
     `SELECT id
      FROM entries
-     WHERE expiration_time IS NOT NULL
-       AND expiration_time <= ?
+     WHERE (expiration_time IS NOT NULL AND expiration_time <= ?)
+        OR (max_downloads IS NOT NULL AND served_downloads >= max_downloads AND COALESCE(last_served_at, '') <= ?)
      ORDER BY expiration_time ASC
      LIMIT ?`,
   )
-    .bind(nowIso, Math.max(1, Math.min(1000, limit)))
+    .bind(nowIso, graceIso, Math.max(1, Math.min(1000, limit)))
     .all<{ id: string }>();
 
   const ids = res.results.map((r) => r.id);
@@ -2406,6 +6193,13 @@ async function maybeCleanupExpiredEntries(env: Env): Promise<void> {
   lastExpiredCleanupAt = now;
   try {
     await cleanupExpiredEntries(env);
+    await cleanupExpiredTusUploads(env, new Date(now).toISOString());
+    await cleanupStaleMultipartUploads(env, new Date(now).toISOString(), await staleUploadHours(env));
+    await env.DB.prepare("DELETE FROM sessions WHERE expires_at <= ?").bind(new Date(now).toISOString()).run();
+    await env.DB.prepare("DELETE FROM signed_url_uses WHERE expires_at <= ?").bind(new Date(now).toISOString()).run();
+    await env.DB.prepare("DELETE FROM auth_failures WHERE last_failure_at <= ? AND (locked_until IS NULL OR locked_until <= ?)")
+      .bind(new Date(now - AUTH_FAILURE_WINDOW_SECONDS * 1000).toISOString(), new Date(now).toISOString())
+      .run();
   } catch {
     // Don't fail requests if cleanup fails; retry next interval.
     lastExpiredCleanupAt = 0;
@@ -2442,8 +6236,11 @@ const GUEST_I18N: Record<
     select_or_paste_first: string;
     upload_limit_exceeded: string;
     file_too_large: string;
+    checksum_invalid: string;
+    checksum_mismatch: string;
     uploaded_files: string;
     upload_wait: string;
+    upload_part_progress: string;
   }
 > = {
   en: {
@@ -2472,8 +6269,11 @@ const GUEST_I18N: Record<
     select_or_paste_first: "Select a file or paste text first.",
     upload_limit_exceeded: "Upload limit exceeded. You can upload {left} more file(s).",
     file_too_large: "File \"{name}\" is too large. Max allowed is {max} MB.",
+    checksum_invalid: "Invalid SHA-256 checksum.",
+    checksum_mismatch: "File \"{name}\" does not match the expected SHA-256 checksum.",
     uploaded_files: "Uploaded {count} file(s). URL(s): {urls}{suffix}",
     upload_wait: "Uploading, please wait...",
+    upload_part_progress: "Uploading {name}: part {part}/{total}",
   },
   zh: {
     page_title: "访客上传 - PicoShare",
@@ -2501,8 +6301,11 @@ const GUEST_I18N: Record<
     select_or_paste_first: "请先选择文件或粘贴文本。",
     upload_limit_exceeded: "超出上传限制，你还可以上传 {left} 个文件。",
     file_too_large: "文件“{name}”过大，最大允许 {max} MB。",
+    checksum_invalid: "SHA-256 校验值无效。",
+    checksum_mismatch: "文件“{name}”与预期的 SHA-256 校验值不一致。",
     uploaded_files: "成功上传 {count} 个文件。URL：{urls}{suffix}",
     upload_wait: "正在上传，请稍候...",
+    upload_part_progress: "正在上传 {name}：分片 {part}/{total}",
   },
 };
 
@@ -2758,7 +6561,7 @@ function guestUploadPage(link: GuestLinkRow, message: string | null, isError: bo
   <div id="guest-busy" class="busy-backdrop hidden" aria-live="polite" aria-busy="true">
     <div class="busy-card">
       <span class="busy-spinner" aria-hidden="true"></span>
-      <span>${escapeHtml(tr.upload_wait)}</span>
+      <span id="guest-busy-text">${escapeHtml(tr.upload_wait)}</span>
     </div>
   </div>
   <script>
@@ -2768,9 +6571,68 @@ function guestUploadPage(link: GuestLinkRow, message: string | null, isError: bo
       var dropZone = document.getElementById('drop-zone');
       var fileList = document.getElementById('file-list');
       var guestBusy = document.getElementById('guest-busy');
+      var guestBusyText = document.getElementById('guest-busy-text');
+      var guestBase = '/guest/' + encodeURIComponent(${JSON.stringify(link.id)});
+      var multipartThreshold = ${MULTIPART_UPLOAD_THRESHOLD_BYTES};
       var selectedFiles = [];
       var uploading = false;
 
+      function showError(message) {
+        var box = document.getElementById('guest-error');
+        if (!box) {
+          box = document.createElement('div');
+          box.id = 'guest-error';
+          box.className = 'flash err';
+          form.parentNode.insertBefore(box, form);
+        }
+        box.textContent = message;
+      }
+
+      function readJson(res) {
+        return res.json().catch(function() { return {}; }).then(function(data) {
+          if (!res.ok) throw new Error(data.error || ('HTTP ' + res.status));
+          return data;
+        });
+      }
+
+      function postJson(path, body) {
+        return fetch(guestBase + path, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }).then(readJson);
+      }
+
+      // Files over the multipart threshold are sent in chunks so they never have to fit in Worker memory.
+      async function uploadLargeFile(file, note) {
+        var init = await postJson('/multipart/init', {
+          filename: file.name,
+          contentType: file.type || 'application/octet-stream',
+          size: file.size,
+          note: note,
+          lang: ${JSON.stringify(lang)},
+        });
+        var chunkSize = Number(init.chunkSize) || (8 * 1024 * 1024);
+        var total = Math.max(1, Math.ceil(file.size / chunkSize));
+        try {
+          for (var i = 0; i < total; i += 1) {
+            guestBusyText.textContent = ${JSON.stringify(tr.upload_part_progress)}
+              .replace('{name}', file.name)
+              .replace('{part}', String(i + 1))
+              .replace('{total}', String(total));
+            await fetch(guestBase + '/multipart/part/' + encodeURIComponent(init.uploadId) + '/' + (i + 1), {
+              method: 'PUT',
+              headers: { 'Content-Type': 'application/octet-stream' },
+              body: file.slice(i * chunkSize, Math.min(file.size, (i + 1) * chunkSize)),
+            }).then(readJson);
+          }
+          return await postJson('/multipart/complete', { uploadId: init.uploadId });
+        } catch (err) {
+          postJson('/multipart/abort', { uploadId: init.uploadId }).catch(function() {});
+          throw err;
+        }
+      }
+
       function syncFileList() {
         if (!selectedFiles.length) {
           fileList.textContent = ${JSON.stringify(tr.no_files)};
@@ -2816,20 +6678,29 @@ function guestUploadPage(link: GuestLinkRow, message: string | null, isError: bo
         }
       });
 
-      form.addEventListener('submit', function(evt) {
+      form.addEventListener('submit', async function(evt) {
         evt.preventDefault();
         if (uploading) return;
         uploading = true;
         guestBusy.classList.remove('hidden');
         var fd = new FormData();
-        if (selectedFiles.length) {
-          selectedFiles.forEach(function(f) { fd.append('files', f); });
-        } else if (filesInput.files && filesInput.files.length) {
-          Array.from(filesInput.files).forEach(function(f) { fd.append('files', f); });
-        }
-        fd.append('lang', ${JSON.stringify(lang)});
+        var files = selectedFiles.length ? selectedFiles : Array.from(filesInput.files || []);
         var pastedText = document.getElementById('pastedText').value.trim();
         var note = document.getElementById('note').value.trim();
+        try {
+          for (var i = 0; i < files.length; i += 1) {
+            if (files[i].size >= multipartThreshold) fd.append('uploaded', (await uploadLargeFile(files[i], note)).id);
+            else fd.append('files', files[i]);
+          }
+        } catch (err) {
+          uploading = false;
+          guestBusy.classList.add('hidden');
+          guestBusyText.textContent = ${JSON.stringify(tr.upload_wait)};
+          showError(String(err.message || err));
+          return;
+        }
+        guestBusyText.textContent = ${JSON.stringify(tr.upload_wait)};
+        fd.append('lang', ${JSON.stringify(lang)});
         if (pastedText) fd.append('pastedText', pastedText);
         if (note) fd.append('note', note);
         fetch(location.href, { method: 'POST', body: fd })
@@ -2850,6 +6721,305 @@ function guestUploadPage(link: GuestLinkRow, message: string | null, isError: bo
 </html>`;
 }
 
+const ENTRY_UNLOCK_I18N: Record<
+  GuestLang,
+  {
+    page_title: string;
+    heading: string;
+    hint: string;
+    password: string;
+    unlock: string;
+    wrong_password: string;
+    too_many_attempts: string;
+    switch_lang: string;
+  }
+> = {
+  en: {
+    page_title: "Protected File - PicoShare",
+    heading: "Password required",
+    hint: "This file is password protected. Enter the password to open it.",
+    password: "Password",
+    unlock: "Unlock",
+    wrong_password: "Incorrect password.",
+    too_many_attempts: "Too many failed attempts. Try again in {minutes} min.",
+    switch_lang: "中文",
+  },
+  zh: {
+    page_title: "受保护的文件 - PicoShare",
+    heading: "需要密码",
+    hint: "该文件已设置密码，请输入密码后打开。",
+    password: "密码",
+    unlock: "解锁",
+    wrong_password: "密码错误。",
+    too_many_attempts: "失败次数过多，请在 {minutes} 分钟后重试。",
+    switch_lang: "EN",
+  },
+};
+
+function entryUnlockPage(message: string | null, lang: GuestLang): string {
+  const tr = ENTRY_UNLOCK_I18N[lang];
+  const flash = message ? `<div class="flash">${escapeHtml(message)}</div>` : "";
+  const nextLang = lang === "en" ? "zh" : "en";
+
+  return `<!doctype html>
+<html lang="${lang === "zh" ? "zh-CN" : "en"}">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <meta name="robots" content="noindex" />
+  <link rel="icon" type="image/svg+xml" href="/favicon.svg" />
+  <title>${escapeHtml(tr.page_title)}</title>
+  <style>
+    body {
+      margin: 0;
+      font-family: "Avenir Next", "SF Pro Text", "Segoe UI", sans-serif;
+      color: #2f4161;
+      background:
+        radial-gradient(circle at 18% 86%, rgba(68, 95, 255, 0.5), transparent 30%),
+        radial-gradient(circle at 80% 30%, rgba(243, 173, 233, 0.6), transparent 30%),
+        linear-gradient(145deg, #f7f9ff, #eef1f8);
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 22px;
+      box-sizing: border-box;
+    }
+    form { width: 100%; max-width: 420px; }
+    h1 { margin: 0 0 8px; font-size: 34px; }
+    .hint { color: #6f7d94; margin: 0 0 18px; line-height: 1.5; }
+    .flash { margin: 0 0 14px; border: 1px solid #f3a9bc; border-radius: 12px; padding: 10px 12px; font-size: 14px; background: #fdeef2; color: #942946; }
+    label { display: block; margin: 10px 0 6px; font-weight: 600; color: #4e5d77; }
+    input {
+      width: 100%;
+      border: 1px solid rgba(255,255,255,0.72);
+      border-radius: 12px;
+      padding: 12px 14px;
+      font-size: 16px;
+      box-sizing: border-box;
+      background: rgba(255,255,255,0.5);
+      color: #40506a;
+    }
+    .actions { margin-top: 16px; display: flex; justify-content: space-between; align-items: center; }
+    .actions a { color: #2b5cc9; font-size: 14px; text-decoration: none; }
+    button {
+      padding: 8px 18px;
+      font-size: 16px;
+      font-weight: 600;
+      cursor: pointer;
+      border: 1px solid rgb(40, 144, 241);
+      border-radius: 25px;
+      background: transparent;
+      color: rgb(40, 144, 241);
+      min-width: 140px;
+    }
+    button:hover { color: #fff; background: rgb(40, 144, 241); }
+  </style>
+</head>
+<body>
+  <form method="post">
+    <h1>${escapeHtml(tr.heading)}</h1>
+    <p class="hint">${escapeHtml(tr.hint)}</p>
+    ${flash}
+    <label for="password">${escapeHtml(tr.password)}</label>
+    <input id="password" name="password" type="password" autocomplete="off" autofocus required />
+    <div class="actions">
+      <a href="?lang=${nextLang}">${escapeHtml(tr.switch_lang)}</a>
+      <button type="submit">${escapeHtml(tr.unlock)}</button>
+    </div>
+  </form>
+</body>
+</html>`;
+}
+
+export function formatByteSize(bytes: number): string {
+  let n = Number(bytes || 0);
+  if (!Number.isFinite(n) || n <= 0) return "0 B";
+  const units = ["B", "kB", "MB", "GB", "TB"];
+  let i = 0;
+  while (n >= 1024 && i < units.length - 1) {
+    n /= 1024;
+    i += 1;
+  }
+  return `${n.toFixed(i === 0 ? 0 : 2)} ${units[i]}`;
+}
+
+export function landingPreviewKind(contentType: string | null): "image" | "video" | "audio" | "pdf" | null {
+  const type = (contentType || "").split(";")[0].trim().toLowerCase();
+  // SVG can carry script; it's only safe behind the download button.
+  if (type.startsWith("image/") && type !== "image/svg+xml") return "image";
+  if (type.startsWith("video/")) return "video";
+  if (type.startsWith("audio/")) return "audio";
+  if (type === "application/pdf") return "pdf";
+  return null;
+}
+
+function shareLinkMode(value: string | null): "raw" | "landing" {
+  return value === "landing" ? "landing" : "raw";
+}
+
+async function entryShareUrl(env: Env, origin: string, id: string): Promise<string> {
+  const mode = shareLinkMode(await getSetting(env, "share_link_mode"));
+  return `${origin}${mode === "landing" ? "/s/" : "/-"}${encodeURIComponent(id)}`;
+}
+
+const ENTRY_LANDING_I18N: Record<
+  GuestLang,
+  {
+    page_title: string;
+    size: string;
+    expires: string;
+    never: string;
+    note: string;
+    downloads_left: string;
+    sha256: string;
+    no_preview: string;
+    download: string;
+    switch_lang: string;
+  }
+> = {
+  en: {
+    page_title: "{filename} - PicoShare",
+    size: "Size",
+    expires: "Expires",
+    never: "Never",
+    note: "Note",
+    downloads_left: "Downloads left",
+    sha256: "SHA-256",
+    no_preview: "No preview available for this file type.",
+    download: "Download",
+    switch_lang: "中文",
+  },
+  zh: {
+    page_title: "{filename} - PicoShare",
+    size: "大小",
+    expires: "过期时间",
+    never: "永不过期",
+    note: "备注",
+    downloads_left: "剩余下载次数",
+    sha256: "SHA-256 校验值",
+    no_preview: "该文件类型不支持预览。",
+    download: "下载",
+    switch_lang: "EN",
+  },
+};
+
+// Query parameters carried from the landing page onto its preview and download links.
+const LANDING_FORWARDED_PARAMS = ["exp", "n", "ip", "sig"];
+
+function entryLandingPage(entry: EntryRow, lang: GuestLang, query: URLSearchParams): string {
+  const tr = ENTRY_LANDING_I18N[lang];
+  const forwarded = new URLSearchParams();
+  for (const key of LANDING_FORWARDED_PARAMS) {
+    const value = query.get(key);
+    if (value !== null) forwarded.set(key, value);
+  }
+  const langQuery = new URLSearchParams(forwarded);
+  langQuery.set("lang", lang === "en" ? "zh" : "en");
+  const downloadQuery = new URLSearchParams(forwarded);
+  downloadQuery.set("download", "1");
+  const suffix = forwarded.toString() ? `?${forwarded.toString()}` : "";
+  const id = encodeURIComponent(entry.id);
+  const previewSrc = escapeHtml(`/_preview/${id}${suffix}`);
+  const title = escapeHtml(entry.filename);
+
+  // Limited entries skip the preview: it would hand out the bytes without counting a download.
+  // A use-limited signed link skips it too, since loading the preview would spend one of its uses.
+  const kind = entry.max_downloads === null && !forwarded.has("n") ? landingPreviewKind(entry.content_type) : null;
+  let preview = `<p class="hint">${escapeHtml(tr.no_preview)}</p>`;
+  if (kind === "image") preview = `<img src="${previewSrc}" alt="${title}" />`;
+  if (kind === "video") preview = `<video src="${previewSrc}" controls preload="metadata"></video>`;
+  if (kind === "audio") preview = `<audio src="${previewSrc}" controls preload="metadata"></audio>`;
+  if (kind === "pdf") preview = `<iframe src="${previewSrc}" title="${title}"></iframe>`;
+
+  const expiresMs = sqlTimestampMs(entry.expiration_time);
+  const expires = expiresMs === null ? tr.never : `${new Date(expiresMs).toISOString().slice(0, 16).replace("T", " ")} UTC`;
+  const rows = [
+    [tr.size, formatByteSize(entry.size)],
+    [tr.expires, expires],
+  ];
+  if (entry.max_downloads !== null) {
+    rows.push([tr.downloads_left, String(Math.max(0, entry.max_downloads - entry.served_downloads))]);
+  }
+  if (entry.note) rows.push([tr.note, entry.note]);
+  if (entry.sha256) rows.push([tr.sha256, entry.sha256]);
+  const details = rows
+    .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join("");
+
+  return `<!doctype html>
+<html lang="${lang === "zh" ? "zh-CN" : "en"}">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <meta name="robots" content="noindex" />
+  <link rel="icon" type="image/svg+xml" href="/favicon.svg" />
+  <title>${escapeHtml(tr.page_title.replace("{filename}", entry.filename))}</title>
+  <style>
+    body {
+      margin: 0;
+      font-family: "Avenir Next", "SF Pro Text", "Segoe UI", sans-serif;
+      color: #2f4161;
+      background:
+        radial-gradient(circle at 18% 86%, rgba(68, 95, 255, 0.5), transparent 30%),
+        radial-gradient(circle at 80% 30%, rgba(243, 173, 233, 0.6), transparent 30%),
+        linear-gradient(145deg, #f7f9ff, #eef1f8);
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 22px;
+      box-sizing: border-box;
+    }
+    main { width: 100%; max-width: 760px; }
+    h1 { margin: 0 0 14px; font-size: 30px; overflow-wrap: anywhere; }
+    .hint { color: #6f7d94; margin: 0; line-height: 1.5; }
+    .preview {
+      margin: 0 0 18px;
+      border: 1px solid rgba(255,255,255,0.72);
+      border-radius: 14px;
+      background: rgba(255,255,255,0.5);
+      padding: 12px;
+      text-align: center;
+    }
+    .preview img, .preview video { max-width: 100%; max-height: 70vh; border-radius: 8px; }
+    .preview audio { width: 100%; }
+    .preview iframe { width: 100%; height: 70vh; border: 0; border-radius: 8px; }
+    dl { display: grid; grid-template-columns: max-content 1fr; gap: 6px 16px; margin: 0 0 18px; }
+    dt { font-weight: 600; color: #4e5d77; }
+    dd { margin: 0; white-space: pre-wrap; overflow-wrap: anywhere; }
+    .actions { display: flex; justify-content: space-between; align-items: center; }
+    .actions a.lang { color: #2b5cc9; font-size: 14px; text-decoration: none; }
+    .download {
+      display: inline-block;
+      padding: 8px 18px;
+      font-size: 16px;
+      font-weight: 600;
+      text-decoration: none;
+      border: 1px solid rgb(40, 144, 241);
+      border-radius: 25px;
+      color: rgb(40, 144, 241);
+      min-width: 140px;
+      text-align: center;
+      box-sizing: border-box;
+    }
+    .download:hover { color: #fff; background: rgb(40, 144, 241); }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>${title}</h1>
+    <div class="preview">${preview}</div>
+    <dl>${details}</dl>
+    <div class="actions">
+      <a class="lang" href="?${escapeHtml(langQuery.toString())}">${escapeHtml(tr.switch_lang)}</a>
+      <a class="download" href="${escapeHtml(`/-${id}?${downloadQuery.toString()}`)}" rel="nofollow">${escapeHtml(tr.download)}</a>
+    </div>
+  </main>
+</body>
+</html>`;
+}
+
 function clipboardListPage(): string {
   return `<!doctype html>
 <html lang="zh-CN">
@@ -3302,10 +7472,16 @@ function clipboardDetailPage(slug: string): string {
         document.getElementById("char-count").textContent = String(text.length);
       }
 
+      function tooManyAttemptsMessage(res) {
+        var wait = Number(res.headers.get("Retry-After") || 0);
+        return "密码错误次数过多，请在 " + Math.max(1, Math.ceil(wait / 60)) + " 分钟后重试";
+      }
+
       async function load() {
         var headers = {};
         if (clipPassword) headers["x-clip-password"] = clipPassword;
         var res = await fetch("/clipboard-api/item/" + encodeURIComponent(slug), { headers: headers });
+        if (res.status === 429) throw new Error(tooManyAttemptsMessage(res));
         if (res.status === 401) {
           hasPassword = true;
           if (clipPassword) {
@@ -3349,6 +7525,10 @@ function clipboardDetailPage(slug: string): string {
           headers: authHeaders(),
           body: JSON.stringify({ content: text }),
         });
+        if (res.status === 429) {
+          isSaving = false;
+          throw new Error(tooManyAttemptsMessage(res));
+        }
         if (res.status === 401) {
           clipPassword = "";
           unlockPasswordEl.value = "";
@@ -3396,6 +7576,7 @@ function clipboardDetailPage(slug: string): string {
             newPassword: nextPassword || null,
           }),
         });
+        if (res.status === 429) throw new Error(tooManyAttemptsMessage(res));
         if (res.status === 401) throw new Error("当前密码错误");
         if (!res.ok) throw new Error(await res.text());
         var data = await res.json();
@@ -3463,66 +7644,318 @@ function clipboardDetailPage(slug: string): string {
 }
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     await ensureSchemaOnce(env);
 
     const url = new URL(request.url);
 
     if (request.method === "OPTIONS") {
+      if (url.pathname === "/api/tus" || url.pathname.startsWith("/api/tus/")) {
+        return new Response(null, {
+          status: 204,
+          headers: withCors({
+            "Tus-Resumable": TUS_VERSION,
+            "Tus-Version": TUS_VERSION,
+            "Tus-Extension": TUS_EXTENSIONS,
+            "Tus-Max-Size": String(TUS_MAX_SIZE),
+          }),
+        });
+      }
       return new Response(null, { headers: withCors() });
     }
 
     await maybeCleanupExpiredEntries(env);
 
-    if (url.pathname.startsWith("/_preview/") && request.method === "GET") {
-      const id = decodeURIComponent(url.pathname.split("/").pop() || "");
-      const entry = await getEntryById(env, id);
+    if (
+      (url.pathname.startsWith("/-") || url.pathname.startsWith("/_preview/") || url.pathname.startsWith("/s/")) &&
+      request.method === "POST"
+    ) {
+      const ref = url.pathname.startsWith("/-")
+        ? decodeURIComponent(url.pathname.slice(2).split("/")[0] || "")
+        : decodeURIComponent(url.pathname.split("/").pop() || "");
+      const entry = await getEntryByIdOrAlias(env, ref);
+      if (!entry || isExpired(entry.expiration_time)) {
+        return new Response("Not Found", { status: 404, headers: withCors() });
+      }
+      const id = entry.id;
+      const lang = normalizeGuestLang(url.searchParams.get("lang"));
+      const back = withCors({ Location: `${url.pathname}${url.search}` });
+      if (!entry.password_hash) return new Response(null, { status: 303, headers: back });
+
+      const target = `entry:${id}`;
+      const retryAfter = await authLockoutRemaining(env, clientIp(request), target);
+      if (retryAfter) {
+        const message = ENTRY_UNLOCK_I18N[lang].too_many_attempts.replace("{minutes}", String(Math.ceil(retryAfter / 60)));
+        return new Response(entryUnlockPage(message, lang), {
+          status: 429,
+          headers: withCors({ "Content-Type": "text/html; charset=utf-8", "Retry-After": String(retryAfter) }),
+        });
+      }
+      const fd = await request.formData();
+      const password = normalizeEntryPassword(fd.get("password"));
+      if (!password || !(await verifyPasswordHash(entry.password_hash, password))) {
+        if (password) await recordAuthFailure(env, clientIp(request), target);
+        return new Response(entryUnlockPage(ENTRY_UNLOCK_I18N[lang].wrong_password, lang), {
+          status: 401,
+          headers: withCors({ "Content-Type": "text/html; charset=utf-8" }),
+        });
+      }
+      await clearAuthFailures(env, target);
+      const token = await signSessionToken(
+        entryUnlockSecret(env, entry),
+        entry.id,
+        Math.floor(Date.now() / 1000) + ENTRY_UNLOCK_TTL_SECONDS,
+      );
+      const secure = url.protocol === "https:" ? "; Secure" : "";
+      back.append(
+        "Set-Cookie",
+        `${ENTRY_UNLOCK_COOKIE_PREFIX}${entry.id}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${ENTRY_UNLOCK_TTL_SECONDS}${secure}`,
+      );
+      return new Response(null, { status: 303, headers: back });
+    }
+
+    if (url.pathname.startsWith("/_preview/") && (request.method === "GET" || request.method === "HEAD")) {
+      const ref = decodeURIComponent(url.pathname.split("/").pop() || "");
+      const entry = await getEntryByIdOrAlias(env, ref);
       if (!entry) return new Response("Not Found", { status: 404, headers: withCors() });
+      const id = entry.id;
       if (isExpired(entry.expiration_time)) {
         await deleteEntryById(env, id);
         return new Response("File expired", { status: 410, headers: withCors() });
       }
+      // Previews don't count downloads, so a limited entry is only previewed by its owner or an admin.
+      if (entry.max_downloads !== null) {
+        const principal = await requireAuth(request, env);
+        if (!principal || !canModifyOwned(principal, entry.created_by)) {
+          return new Response("Forbidden", { status: 403, headers: withCors() });
+        }
+      }
+      const signed = await authorizeSignedDownload(request, env, url, entry);
+      if (!signed.ok) return new Response("Forbidden", { status: 403, headers: withCors() });
+      // Signed-in users previewing from the admin UI don't need the file password.
+      if (!(await entryUnlocked(request, env, entry)) && !(await requireAuth(request, env))) {
+        return new Response(entryUnlockPage(null, normalizeGuestLang(url.searchParams.get("lang"))), {
+          status: 401,
+          headers: withCors({ "Content-Type": "text/html; charset=utf-8" }),
+        });
+      }
 
-      const obj = await env.BUCKET.get(id);
-      if (!obj) return new Response("Not Found", { status: 404, headers: withCors() });
-
-      const h = withCors();
-      obj.writeHttpMetadata(h);
-      h.set("Content-Disposition", "inline");
-      if (entry.content_type) h.set("Content-Type", entry.content_type);
-      return new Response(obj.body, { headers: h });
+      const served = await entryObjectResponse(request, env, entry, "inline");
+      if (!served) return new Response("Not Found", { status: 404, headers: withCors() });
+      // The signature isn't tied to a route, so a use-limited link is charged here just as on /-:id.
+      if (signed.nonce && !(await signedUrlAllows(env, signed.nonce, served.wholeFile))) {
+        await served.response.body?.cancel();
+        return new Response("Forbidden", { status: 403, headers: withCors() });
+      }
+      return served.response;
     }
 
-    if (url.pathname.startsWith("/-") && request.method === "GET") {
-      const id = decodeURIComponent(url.pathname.slice(2).split("/")[0] || "");
-      const entry = await getEntryById(env, id);
+    if (url.pathname.startsWith("/s/") && request.method === "GET") {
+      const ref = decodeURIComponent(url.pathname.split("/").pop() || "");
+      const entry = await getEntryByIdOrAlias(env, ref);
       if (!entry) return new Response("Not Found", { status: 404, headers: withCors() });
+      const id = entry.id;
       if (isExpired(entry.expiration_time)) {
         await deleteEntryById(env, id);
         return new Response("File expired", { status: 410, headers: withCors() });
       }
+      const signed = await authorizeSignedDownload(request, env, url, entry);
+      if (!signed.ok) return new Response("Forbidden", { status: 403, headers: withCors() });
+      const lang = normalizeGuestLang(url.searchParams.get("lang"));
+      if (!(await entryUnlocked(request, env, entry))) {
+        return new Response(entryUnlockPage(null, lang), {
+          status: 401,
+          headers: withCors({ "Content-Type": "text/html; charset=utf-8" }),
+        });
+      }
+      if (entry.max_downloads !== null && entry.served_downloads >= entry.max_downloads) {
+        return new Response("Download limit reached", { status: 410, headers: withCors() });
+      }
+      return new Response(entryLandingPage(entry, lang, url.searchParams), {
+        headers: withCors({ "Content-Type": "text/html; charset=utf-8", "X-Robots-Tag": "noindex" }),
+      });
+    }
 
-      const obj = await env.BUCKET.get(id);
-      if (!obj) return new Response("Not Found", { status: 404, headers: withCors() });
+    if (url.pathname.startsWith("/-") && (request.method === "GET" || request.method === "HEAD")) {
+      const ref = decodeURIComponent(url.pathname.slice(2).split("/")[0] || "");
+      const entry = await getEntryByIdOrAlias(env, ref);
+      if (!entry) return new Response("Not Found", { status: 404, headers: withCors() });
+      const id = entry.id;
+      if (isExpired(entry.expiration_time)) {
+        await deleteEntryById(env, id);
+        return new Response("File expired", { status: 410, headers: withCors() });
+      }
+      const signed = await authorizeSignedDownload(request, env, url, entry);
+      if (!signed.ok) return new Response("Forbidden", { status: 403, headers: withCors() });
+      if (!(await entryUnlocked(request, env, entry))) {
+        return new Response(entryUnlockPage(null, normalizeGuestLang(url.searchParams.get("lang"))), {
+          status: 401,
+          headers: withCors({ "Content-Type": "text/html; charset=utf-8" }),
+        });
+      }
 
-      await env.DB.prepare(
-        "INSERT INTO download_events(entry_id, ip, user_agent) VALUES (?, ?, ?)",
-      )
-        .bind(id, request.headers.get("cf-connecting-ip"), request.headers.get("user-agent"))
-        .run();
+      const limited = entry.max_downloads !== null;
+      // Unfurlers fetch links as soon as they are pasted; don't let them burn a limited download.
+      if (limited && isLinkPreviewBot(request.headers.get("user-agent"))) {
+        return new Response("This link can only be downloaded a limited number of times.", {
+          headers: withCors({ "Content-Type": "text/plain; charset=utf-8", "X-Robots-Tag": "noindex" }),
+        });
+      }
 
-      const h = withCors();
-      obj.writeHttpMetadata(h);
-      h.set("Content-Disposition", `inline; filename="${entry.filename}"`);
-      if (entry.content_type) h.set("Content-Type", entry.content_type);
-      return new Response(obj.body, { headers: h });
+      // Limited entries always serve the whole body so partial fetches can't bypass the count.
+      const disposition = contentDisposition(
+        url.searchParams.get("download") === "1" ? "attachment" : "inline",
+        sanitizeDownloadFilename(url.searchParams.get("as")) || entry.filename,
+      );
+      const served = await entryObjectResponse(request, env, entry, disposition, {
+        allowRanges: !limited,
+      });
+      if (!served) return new Response("Not Found", { status: 404, headers: withCors() });
+      // Only responses carrying the whole file count as a download (and as a use of a limited signed link);
+      // HEAD, 304 and partial range requests just need the link to still have uses left.
+      if (signed.nonce && !(await signedUrlAllows(env, signed.nonce, served.wholeFile))) {
+        await served.response.body?.cancel();
+        return new Response("Forbidden", { status: 403, headers: withCors() });
+      }
+      let response = served.response;
+      if (served.wholeFile && limited) {
+        const claim = await claimEntryDownload(env, id);
+        if (!claim) {
+          await response.body?.cancel();
+          return new Response("Download limit reached", { status: 410, headers: withCors() });
+        }
+        if (claim.remaining <= 0) {
+          response = afterBodyStreamed(response, () => ctx.waitUntil(deleteEntryById(env, id)));
+        }
+      }
+      if (served.wholeFile) {
+        await env.DB.prepare(
+          "INSERT INTO download_events(entry_id, ip, user_agent) VALUES (?, ?, ?)",
+        )
+          .bind(id, request.headers.get("cf-connecting-ip"), request.headers.get("user-agent"))
+          .run();
+      }
+      return response;
     }
 
     if (url.pathname.startsWith("/guest/")) {
-      const guestId = decodeURIComponent(url.pathname.split("/").pop() || "");
+      const seg = url.pathname.split("/");
+      const guestId = decodeURIComponent(seg[2] || "");
       const guestLang = normalizeGuestLang(url.searchParams.get("lang"));
       const link = await getGuestLinkById(env, guestId);
       if (!link) return new Response("Guest link not found", { status: 404, headers: withCors() });
+
+      // Limits and link expiry are checked at init; an upload that was allowed to start may finish.
+      if (seg[3] === "multipart") {
+        const action = seg[4] || "";
+        if (action === "init" && request.method === "POST") {
+          const body = (await request.json()) as {
+            filename?: unknown;
+            contentType?: unknown;
+            size?: unknown;
+            note?: unknown;
+            sha256?: unknown;
+            lang?: unknown;
+          };
+          const lang = normalizeGuestLang(typeof body.lang === "string" ? body.lang : guestLang);
+          if (isExpired(link.url_expires)) return json({ error: "Guest link expired" }, 410);
+          const filename = typeof body.filename === "string" && body.filename.trim()
+            ? body.filename.trim().slice(0, 255)
+            : `guest-file-${generateID()}`;
+          const contentType = typeof body.contentType === "string" && body.contentType.trim()
+            ? body.contentType.trim()
+            : "application/octet-stream";
+          const size = Number(body.size || 0);
+          if (!Number.isSafeInteger(size) || size < 0) return json({ error: "invalid file size" }, 400);
+          if (!shouldUseMultipartUpload(size)) {
+            return json({ error: "file smaller than 100MB should use regular upload" }, 400);
+          }
+          if (link.max_file_bytes && size > link.max_file_bytes) {
+            return json(
+              {
+                error: guestText(lang, "file_too_large", {
+                  name: filename,
+                  max: Math.round(link.max_file_bytes / (1024 * 1024)),
+                }),
+              },
+              413,
+            );
+          }
+          if (link.max_file_uploads && (await guestUploadsUsed(env, link)) >= link.max_file_uploads) {
+            return json({ error: guestText(lang, "upload_limit_reached") }, 429);
+          }
+          const expected = expectedSha256(new Headers(), body.sha256);
+          if (expected === "invalid") return json({ error: guestText(lang, "checksum_invalid", { name: filename }) }, 400);
+          const note = typeof body.note === "string" ? body.note.trim().slice(0, 1000) || null : null;
+          const entryId = await generateUniqueID(env, "entry");
+          const upload = await env.BUCKET.createMultipartUpload(entryId, { httpMetadata: { contentType } });
+          await env.DB.prepare(
+            `INSERT INTO multipart_uploads
+              (upload_id, entry_id, filename, content_type, size, expiration_time, note, expected_sha256, chunk_size, guest_link_id)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          )
+            .bind(
+              upload.uploadId,
+              entryId,
+              filename,
+              contentType,
+              size,
+              link.max_file_lifetime_days ? expirationToISO(link.max_file_lifetime_days) : null,
+              note,
+              expected,
+              MULTIPART_CHUNK_SIZE_BYTES,
+              guestId,
+            )
+            .run();
+          return json({ uploadId: upload.uploadId, id: entryId, chunkSize: MULTIPART_CHUNK_SIZE_BYTES });
+        }
+
+        const uploadId = action === "part"
+          ? decodeURIComponent(seg[5] || "")
+          : request.method === "POST"
+            ? String(((await request.json()) as { uploadId?: unknown }).uploadId || "")
+            : "";
+        const upload = uploadId ? await getMultipartUploadById(env, uploadId) : null;
+        if (!upload || upload.guest_link_id !== guestId) return json({ error: "multipart upload not found" }, 404);
+
+        if (action === "part" && request.method === "PUT") {
+          const partNumber = parseMultipartPartNumber(seg[6] || null);
+          const chunkSize = upload.chunk_size ?? MULTIPART_CHUNK_SIZE_BYTES;
+          if (!partNumber || partNumber > Math.ceil(upload.size / chunkSize)) {
+            return json({ error: "invalid part number" }, 400);
+          }
+          // Guests are unauthenticated, so the declared length is checked before anything is buffered.
+          const declared = parseByteLength(request.headers.get("Content-Length"));
+          if (declared === null) return json({ error: "Content-Length is required" }, 411);
+          if (declared > chunkSize) return json({ error: "part exceeds chunk size" }, 413);
+          const bytes = await request.arrayBuffer();
+          if (bytes.byteLength > chunkSize) return json({ error: "part exceeds chunk size" }, 413);
+          const part = await uploadMultipartPart(env, upload, partNumber, bytes);
+          return json({ ok: true, partNumber: part.partNumber });
+        }
+
+        if (action === "complete" && request.method === "POST") {
+          const result = await completeMultipartEntry(env, upload, upload.expected_sha256);
+          if ("error" in result) return json({ error: result.error, sha256: result.sha256 }, result.status);
+          await env.DB.prepare("UPDATE guest_links SET upload_count = COALESCE(upload_count, 0) + 1 WHERE id = ?")
+            .bind(guestId)
+            .run();
+          return json({
+            id: upload.entry_id,
+            filename: upload.filename,
+            sha256: result.sha256,
+            url: await entryShareUrl(env, url.origin, upload.entry_id),
+          });
+        }
+
+        if (action === "abort" && request.method === "POST") {
+          await abortMultipartUpload(env, upload);
+          return json({ ok: true });
+        }
+
+        return json({ error: "not found" }, 404);
+      }
+
       if (isExpired(link.url_expires)) {
         return new Response("Guest link expired", { status: 410, headers: withCors() });
       }
@@ -3534,13 +7967,6 @@ export default {
       }
 
       if (request.method === "POST") {
-        if (link.max_file_uploads && (link.upload_count || 0) >= link.max_file_uploads) {
-          return new Response(guestUploadPage(link, guestText(guestLang, "upload_limit_reached"), true, guestLang), {
-            status: 429,
-            headers: withCors({ "Content-Type": "text/html; charset=utf-8" }),
-          });
-        }
-
         const fd = await request.formData();
         const postLang = normalizeGuestLang((fd.get("lang") as string | null) || guestLang);
         const isFileLike = (v: unknown): v is File =>
@@ -3556,12 +7982,28 @@ export default {
           : (isFileLike(fallbackFile) ? [fallbackFile] : []);
         const pastedText = (fd.get("pastedText") as string | null)?.trim() || "";
         const note = ((fd.get("note") as string | null) || "").trim().slice(0, 1000) || null;
-        if (files.length === 0 && !pastedText) {
+        // Large files go through /multipart first; the page then posts their ids so the result lists them too.
+        const multipartIds: string[] = [];
+        for (const value of fd.getAll("uploaded")) {
+          if (typeof value !== "string" || multipartIds.includes(value)) continue;
+          const own = await env.DB.prepare("SELECT 1 AS own FROM entries WHERE id = ? AND guest_link_id = ?")
+            .bind(value, guestId)
+            .first<{ own: number }>();
+          if (own) multipartIds.push(value);
+        }
+        if (files.length === 0 && !pastedText && !multipartIds.length) {
           return new Response(guestUploadPage(link, guestText(postLang, "select_or_paste_first"), true, postLang), {
             status: 400,
             headers: withCors({ "Content-Type": "text/html; charset=utf-8" }),
           });
         }
+        const used = await guestUploadsUsed(env, link);
+        if ((files.length || pastedText) && link.max_file_uploads && used >= link.max_file_uploads) {
+          return new Response(guestUploadPage(link, guestText(postLang, "upload_limit_reached"), true, postLang), {
+            status: 429,
+            headers: withCors({ "Content-Type": "text/html; charset=utf-8" }),
+          });
+        }
 
         const candidates: Array<{
           id: string;
@@ -3569,21 +8011,42 @@ export default {
           contentType: string;
           bytes: ArrayBuffer | Uint8Array;
           size: number;
+          sha256: string;
         }> = [];
 
-        for (const file of files) {
-          const id = generateID();
+        // Expected digests pair with files in order; headers can only describe a single file.
+        const digestFields = fd.getAll("sha256");
+        if (digestFields.length && digestFields.length !== files.length) {
+          return new Response(guestUploadPage(link, guestText(postLang, "checksum_invalid"), true, postLang), {
+            status: 400,
+            headers: withCors({ "Content-Type": "text/html; charset=utf-8" }),
+          });
+        }
+        for (const [i, file] of files.entries()) {
+          const id = await generateUniqueID(env, "entry");
+          const bytes = await file.arrayBuffer();
+          const sha256 = await sha256Hex(bytes);
+          const headers = files.length === 1 ? request.headers : new Headers();
+          const expected = expectedSha256(headers, digestFields[i]);
+          if (expected === "invalid" || (expected && expected !== sha256)) {
+            const key = expected === "invalid" ? "checksum_invalid" : "checksum_mismatch";
+            return new Response(guestUploadPage(link, guestText(postLang, key, { name: file.name }), true, postLang), {
+              status: expected === "invalid" ? 400 : 422,
+              headers: withCors({ "Content-Type": "text/html; charset=utf-8" }),
+            });
+          }
           candidates.push({
             id,
             filename: file.name || `guest-file-${id}`,
             contentType: file.type || "application/octet-stream",
-            bytes: await file.arrayBuffer(),
+            bytes,
             size: file.size,
+            sha256,
           });
         }
 
         if (pastedText) {
-          const id = generateID();
+          const id = await generateUniqueID(env, "entry");
           const bytes = new TextEncoder().encode(pastedText);
           candidates.push({
             id,
@@ -3591,11 +8054,12 @@ export default {
             contentType: "text/plain",
             bytes,
             size: bytes.byteLength,
+            sha256: await sha256Hex(bytes),
           });
         }
 
         if (link.max_file_uploads) {
-          const left = Math.max(0, link.max_file_uploads - (link.upload_count || 0));
+          const left = Math.max(0, link.max_file_uploads - used);
           if (candidates.length > left) {
             return new Response(
               guestUploadPage(link, guestText(postLang, "upload_limit_exceeded", { left }), true, postLang),
@@ -3632,31 +8096,35 @@ export default {
           : null;
 
         for (const item of candidates) {
-          await env.BUCKET.put(item.id, item.bytes, { httpMetadata: { contentType: item.contentType } });
+          const stored = await storeBlob(env, item.sha256, item.id, item.bytes, item.contentType);
           await env.DB.prepare(
-            "INSERT INTO entries (id, filename, content_type, size, expiration_time, note, guest_link_id) VALUES (?, ?, ?, ?, ?, ?, ?)",
+            `INSERT INTO entries (id, filename, content_type, size, expiration_time, note, guest_link_id, sha256, object_key)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           )
-            .bind(item.id, item.filename, item.contentType, item.size, expiration, note, guestId)
+            .bind(item.id, item.filename, item.contentType, item.size, expiration, note, guestId, stored.hash, stored.objectKey)
+            .run();
+        }
+        if (candidates.length) {
+          await env.DB.prepare(
+            "UPDATE guest_links SET upload_count = COALESCE(upload_count, 0) + ? WHERE id = ?",
+          )
+            .bind(candidates.length, guestId)
             .run();
         }
-        await env.DB.prepare(
-          "UPDATE guest_links SET upload_count = COALESCE(upload_count, 0) + ? WHERE id = ?",
-        )
-          .bind(candidates.length, guestId)
-          .run();
 
         const refreshed = await getGuestLinkById(env, guestId);
-        const uploadedUrls = candidates
-          .slice(0, 3)
-          .map((c) => new URL(`/-${c.id}`, request.url).toString());
-        const suffix = candidates.length > 3
-          ? (postLang === "zh" ? `（另 ${candidates.length - 3} 个）` : ` (+${candidates.length - 3} more)`)
+        const uploadedIds = [...multipartIds, ...candidates.map((c) => c.id)];
+        const uploadedUrls = await Promise.all(
+          uploadedIds.slice(0, 3).map((id) => entryShareUrl(env, url.origin, id)),
+        );
+        const suffix = uploadedIds.length > 3
+          ? (postLang === "zh" ? `（另 ${uploadedIds.length - 3} 个）` : ` (+${uploadedIds.length - 3} more)`)
           : "";
         return new Response(
           guestUploadPage(
             refreshed || link,
             guestText(postLang, "uploaded_files", {
-              count: candidates.length,
+              count: uploadedIds.length,
               urls: uploadedUrls.join(", "),
               suffix,
             }),
@@ -3700,9 +8168,14 @@ export default {
         const oldPassword = normalizeClipboardPassword(body.password);
         if (existing?.passwordHash) {
           if (!oldPassword) return json({ error: "password required" }, 401);
+          const target = `clipboard:${slug}`;
+          const retryAfter = await authLockoutRemaining(env, clientIp(request), target);
+          if (retryAfter) return tooManyAttempts(retryAfter);
           if (!(await verifyClipboardPassword(existing.passwordHash, oldPassword))) {
+            await recordAuthFailure(env, clientIp(request), target);
             return json({ error: "invalid password" }, 401);
           }
+          await clearAuthFailures(env, target);
         }
         const now = new Date().toISOString();
         const next: ClipboardRecord = {
@@ -3710,7 +8183,7 @@ export default {
           content: existing?.content || "",
           createdAt: existing?.createdAt || now,
           updatedAt: now,
-          passwordHash: newPassword ? await sha256Hex(newPassword) : null,
+          passwordHash: newPassword ? await hashPassword(newPassword) : null,
         };
         await env.CLIPBOARD.put(clipboardKey(slug), JSON.stringify(next));
         return json({ ok: true, hasPassword: Boolean(next.passwordHash), updatedAt: now });
@@ -3727,7 +8200,8 @@ export default {
             ...calculateClipboardStats(""),
           });
         }
-        const auth = await authorizeClipboardRequest(request, existing);
+        const auth = await authorizeClipboardRequest(request, env, existing);
+        if (auth.retryAfter) return tooManyAttempts(auth.retryAfter);
         if (!auth.ok) return json({ error: "password required", hasPassword: true }, 401);
         return json({
           slug: existing.slug,
@@ -3745,7 +8219,8 @@ export default {
         if (content.length > MAX_CLIPBOARD_CHARS) {
           return json({ error: `content too large, max ${MAX_CLIPBOARD_CHARS} chars` }, 400);
         }
-        const auth = await authorizeClipboardRequest(request, existing);
+        const auth = await authorizeClipboardRequest(request, env, existing);
+        if (auth.retryAfter) return tooManyAttempts(auth.retryAfter);
         if (!auth.ok) return json({ error: "password required", hasPassword: true }, 401);
         const now = new Date().toISOString();
         const next: ClipboardRecord = {
@@ -3774,10 +8249,203 @@ export default {
       });
     }
 
+    if (url.pathname === "/api/login" && request.method === "POST") {
+      const body = (await request.json()) as { username?: unknown; password?: unknown; code?: unknown };
+      const username = typeof body.username === "string" ? body.username : "";
+      const password = typeof body.password === "string" ? body.password : "";
+      const target = accountLockoutTarget(username);
+      const retryAfter = await authLockoutRemaining(env, clientIp(request), target);
+      if (retryAfter) return tooManyAttempts(retryAfter);
+      const loggedIn = password ? await authenticateCredentials(env, username, password) : null;
+      if (!loggedIn) {
+        if (password) await recordAuthFailure(env, clientIp(request), target);
+        return json({ error: "invalid credentials" }, 401);
+      }
+      const credential = await getTotpCredential(env, totpOwnerKey(loggedIn));
+      if (credential?.enabled) {
+        const code = typeof body.code === "string" ? body.code : "";
+        if (!code) return json({ error: "two-factor code required", totpRequired: true }, 401);
+        if (!(await consumeSecondFactor(env, credential, code))) {
+          await recordAuthFailure(env, clientIp(request), target);
+          return json({ error: "invalid two-factor code", totpRequired: true }, 401);
+        }
+      }
+      await clearAuthFailures(env, target);
+
+      const session = await createSession(env, request, loggedIn);
+      const res = json({ token: session.token, expiresAt: session.expiresAt, username: loggedIn.username, role: loggedIn.role });
+      res.headers.append("Set-Cookie", sessionCookie(request, session.token, SESSION_TTL_SECONDS));
+      return res;
+    }
+
+    if (url.pathname === "/api/logout" && request.method === "POST") {
+      const token = sessionTokenFromRequest(request);
+      const verified = token ? await verifySessionToken(sessionSigningSecret(env), token) : null;
+      if (verified) {
+        await env.DB.prepare("DELETE FROM sessions WHERE id = ?").bind(verified.sessionId).run();
+      }
+      const res = json({ ok: true });
+      res.headers.append("Set-Cookie", sessionCookie(request, "", 0));
+      return res;
+    }
+
     if (url.pathname.startsWith("/api/")) {
-      if (!(await requireAuth(request, env))) {
+      const credentialTarget = directCredentialTarget(request);
+      if (credentialTarget) {
+        const retryAfter = await authLockoutRemaining(env, clientIp(request), credentialTarget);
+        if (retryAfter) return tooManyAttempts(retryAfter);
+      }
+      const principal = await requireAuth(request, env);
+      if (!principal) {
+        if (credentialTarget) await recordAuthFailure(env, clientIp(request), credentialTarget);
         return unauthorized();
       }
+      if (!roleSatisfies(principal.role, requiredRoleForRoute(request.method, url.pathname))) {
+        return forbidden();
+      }
+      if (principal.scopes && !tokenScopesAllow(principal.scopes, request.method, url.pathname)) {
+        return forbidden();
+      }
+
+      if (url.pathname === "/api/me" && request.method === "GET") {
+        return json({
+          userId: principal.userId,
+          username: principal.username,
+          role: principal.role,
+          scopes: principal.scopes,
+        });
+      }
+
+      if (url.pathname === "/api/sessions" && request.method === "GET") {
+        const nowIso = new Date().toISOString();
+        const res = principal.role === "admin"
+          ? await env.DB.prepare(
+            `SELECT id, user_id, username, created_time, expires_at, last_seen_at, ip, user_agent
+             FROM sessions
+             WHERE expires_at > ?
+             ORDER BY created_time DESC`,
+          ).bind(nowIso).all<SessionRow>()
+          : await env.DB.prepare(
+            `SELECT id, user_id, username, created_time, expires_at, last_seen_at, ip, user_agent
+             FROM sessions
+             WHERE expires_at > ? AND user_id = ?
+             ORDER BY created_time DESC`,
+          ).bind(nowIso, principal.userId).all<SessionRow>();
+        return json(res.results.map((row) => ({ ...row, current: row.id === principal.sessionId })));
+      }
+
+      if (url.pathname.startsWith("/api/sessions/") && request.method === "DELETE") {
+        const id = decodeURIComponent(url.pathname.split("/").pop() || "");
+        const session = await env.DB.prepare("SELECT id, user_id FROM sessions WHERE id = ?")
+          .bind(id)
+          .first<{ id: string; user_id: string | null }>();
+        if (!session) return json({ error: "not found" }, 404);
+        if (!canModifyOwned(principal, session.user_id)) return forbidden();
+        await env.DB.prepare("DELETE FROM sessions WHERE id = ?").bind(id).run();
+        return json({ ok: true });
+      }
+
+      if (url.pathname === "/api/entry/stream" && request.method === "POST") {
+        const length = parseByteLength(request.headers.get("Content-Length"));
+        if (length === null) return json({ error: "Content-Length is required" }, 411);
+        const limit = await maxUploadBytes(env);
+        if (limit && length > limit) return json({ error: `upload exceeds the ${limit} byte limit` }, 413);
+        // Options ride in the query string; the password comes in a header to keep it out of URLs and logs.
+        const options = await parseUploadOptions((key) =>
+          key === "password" ? request.headers.get("X-Entry-Password") : url.searchParams.get(key),
+        );
+        const aliasResult = await resolveEntryAlias(env, url.searchParams.get("alias"), null);
+        if ("error" in aliasResult) return json({ error: aliasResult.error }, aliasResult.status);
+        const expected = expectedSha256(request.headers, url.searchParams.get("sha256"));
+        if (expected === "invalid") return json({ error: "invalid sha256 digest" }, 400);
+        const id = await generateUniqueID(env, "entry");
+        const entry: UploadedEntry = {
+          entry_id: id,
+          filename: (url.searchParams.get("filename") || "").trim().slice(0, 255) || `upload-${id}.bin`,
+          content_type: request.headers.get("Content-Type") || "application/octet-stream",
+          size: length,
+          expiration_time: options.expiration,
+          note: options.note,
+          created_by: principal.userId,
+          guest_link_id: null,
+          password_hash: options.passwordHash,
+          max_downloads: options.maxDownloads,
+          alias: aliasResult.alias,
+          relative_path: sanitizeRelativePath(url.searchParams.get("relativePath")),
+        };
+        const result = await streamUploadedEntry(env, entry, request.body ?? new Blob([]).stream(), limit, expected);
+        if ("error" in result) return json({ error: result.error, sha256: result.sha256 }, result.status);
+        return json({ id, filename: entry.filename, alias: entry.alias, sha256: result.sha256 });
+      }
+
+      if (url.pathname.startsWith("/api/put/") && request.method === "PUT") {
+        const wantsJson = (request.headers.get("Accept") || "").includes("application/json");
+        const reply = (data: { error?: string; url?: string }, status = 200): Response => {
+          if (wantsJson) return json(data, status);
+          return new Response(`${data.error ?? data.url}\n`, {
+            status,
+            headers: withCors({ "Content-Type": "text/plain; charset=utf-8" }),
+          });
+        };
+        // Headers win over query parameters; header values may be percent-encoded to carry non-ASCII text.
+        const option = (header: string, param: string): string | null => {
+          const value = request.headers.get(header);
+          if (value === null) return url.searchParams.get(param);
+          try {
+            return decodeURIComponent(value);
+          } catch {
+            return value;
+          }
+        };
+        const length = parseByteLength(request.headers.get("Content-Length"));
+        if (length === 0) return reply({ error: "empty upload body" }, 400);
+        const limit = await maxUploadBytes(env);
+        if (limit && length !== null && length > limit) return reply({ error: `upload exceeds the ${limit} byte limit` }, 413);
+        const options = await parseUploadOptions((key) =>
+          key === "note"
+            ? option("X-Note", "note")
+            : key === "expirationDays"
+              ? option("X-Expiration-Days", "expirationDays")
+              : key === "maxDownloads"
+                ? option("X-Max-Downloads", "maxDownloads")
+                : request.headers.get("X-Entry-Password"),
+        );
+        const aliasResult = await resolveEntryAlias(env, option("X-Alias", "alias"), null);
+        if ("error" in aliasResult) return reply({ error: aliasResult.error }, aliasResult.status);
+        const expected = expectedSha256(request.headers, url.searchParams.get("sha256"));
+        if (expected === "invalid") return reply({ error: "invalid sha256 digest" }, 400);
+        let filename: string | null = null;
+        try {
+          filename = sanitizeDownloadFilename(decodeURIComponent(url.pathname.slice("/api/put/".length)));
+        } catch {
+          return reply({ error: "invalid filename" }, 400);
+        }
+        const id = await generateUniqueID(env, "entry");
+        const entry = {
+          entry_id: id,
+          filename: filename || `upload-${id}.bin`,
+          content_type: request.headers.get("Content-Type") || "application/octet-stream",
+          expiration_time: options.expiration,
+          note: options.note,
+          created_by: principal.userId,
+          guest_link_id: null,
+          password_hash: options.passwordHash,
+          max_downloads: options.maxDownloads,
+          alias: aliasResult.alias,
+          relative_path: null,
+        };
+        const body = request.body ?? new Blob([]).stream();
+        // Bodies without a length (e.g. `curl -T -`) can't go through a single R2 put, so they use multipart too.
+        const result = length !== null && !shouldUseMultipartUpload(length)
+          ? await streamUploadedEntry(env, { ...entry, size: length }, body, limit, expected)
+          : await streamMultipartEntry(env, { ...entry, size: length }, body, limit, expected);
+        if ("error" in result) return reply({ error: result.error }, result.status);
+        const shareUrl = await entryShareUrl(env, url.origin, entry.alias ?? id);
+        if (wantsJson) {
+          return json({ id, filename: entry.filename, alias: entry.alias, sha256: result.sha256, url: shareUrl }, 201);
+        }
+        return reply({ url: shareUrl }, 201);
+      }
 
       if (url.pathname === "/api/entry/multipart/init" && request.method === "POST") {
         const body = (await request.json()) as {
@@ -3786,6 +8454,12 @@ export default {
           size?: unknown;
           note?: unknown;
           expirationDays?: unknown;
+          password?: unknown;
+          maxDownloads?: unknown;
+          alias?: unknown;
+          sha256?: unknown;
+          fingerprint?: unknown;
+          relativePath?: unknown;
         };
         const filename = typeof body.filename === "string" && body.filename.trim()
           ? body.filename.trim().slice(0, 255)
@@ -3800,17 +8474,38 @@ export default {
         if (!shouldUseMultipartUpload(size)) {
           return json({ error: "file smaller than 100MB should use regular upload" }, 400);
         }
-        const note = typeof body.note === "string" ? body.note.trim().slice(0, 1000) || null : null;
-        const expirationInput = body.expirationDays == null ? null : String(body.expirationDays);
-        const expiration = expirationToISO(parseExpirationDays(expirationInput));
-        const entryId = generateID();
+        const limit = await maxUploadBytes(env);
+        if (limit && size > limit) return json({ error: `upload exceeds the ${limit} byte limit` }, 413);
+        const options = await parseUploadOptions((key) => (body as Record<string, unknown>)[key]);
+        const aliasResult = await resolveEntryAlias(env, body.alias, null);
+        if ("error" in aliasResult) return json({ error: aliasResult.error }, aliasResult.status);
+        const expected = expectedSha256(new Headers(), body.sha256);
+        if (expected === "invalid") return json({ error: "invalid sha256 digest" }, 400);
+        const entryId = await generateUniqueID(env, "entry");
         const upload = await env.BUCKET.createMultipartUpload(entryId, { httpMetadata: { contentType } });
         await env.DB.prepare(
           `INSERT INTO multipart_uploads
-            (upload_id, entry_id, filename, content_type, size, expiration_time, note)
-           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            (upload_id, entry_id, filename, content_type, size, expiration_time, note, created_by, password_hash, max_downloads, alias,
+             expected_sha256, fingerprint, chunk_size, relative_path)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         )
-          .bind(upload.uploadId, entryId, filename, contentType, Math.floor(size), expiration, note)
+          .bind(
+            upload.uploadId,
+            entryId,
+            filename,
+            contentType,
+            Math.floor(size),
+            options.expiration,
+            options.note,
+            principal.userId,
+            options.passwordHash,
+            options.maxDownloads,
+            aliasResult.alias,
+            expected,
+            sanitizeUploadFingerprint(body.fingerprint),
+            MULTIPART_CHUNK_SIZE_BYTES,
+            sanitizeRelativePath(body.relativePath),
+          )
           .run();
         return json({
           uploadId: upload.uploadId,
@@ -3819,61 +8514,107 @@ export default {
         });
       }
 
+      if (url.pathname === "/api/entry/multipart/uploads" && request.method === "GET") {
+        const res = await env.DB.prepare(
+          `SELECT
+             m.upload_id,
+             m.entry_id,
+             m.filename,
+             m.content_type,
+             m.size,
+             m.created_time,
+             m.created_by,
+             u.username AS created_by_name,
+             m.guest_link_id,
+             m.fingerprint,
+             m.server_streamed,
+             COALESCE(m.chunk_size, ?1) AS chunk_size,
+             m.tus_offset IS NOT NULL AS tus,
+             CASE
+               WHEN m.tus_offset IS NOT NULL THEN m.tus_offset
+               ELSE MIN(m.size, COALESCE(p.count, 0) * COALESCE(m.chunk_size, ?1))
+             END AS uploaded_bytes,
+             COALESCE(p.count, 0) AS part_count
+           FROM multipart_uploads m
+           LEFT JOIN (
+             SELECT upload_id, COUNT(*) AS count
+             FROM multipart_upload_parts
+             GROUP BY upload_id
+           ) p ON p.upload_id = m.upload_id
+           LEFT JOIN users u ON u.id = m.created_by
+           WHERE ?2 = 1 OR m.created_by = ?3
+           ORDER BY m.created_time DESC`,
+        )
+          .bind(MULTIPART_CHUNK_SIZE_BYTES, principal.role === "admin" ? 1 : 0, principal.userId ?? "")
+          .all();
+        return json(res.results);
+      }
+
+      if (url.pathname.startsWith("/api/entry/multipart/parts/") && request.method === "GET") {
+        const uploadId = decodeURIComponent(url.pathname.slice("/api/entry/multipart/parts/".length));
+        const upload = uploadId ? await getMultipartUploadById(env, uploadId) : null;
+        if (!upload || upload.tus_offset !== null || upload.server_streamed || !canModifyOwned(principal, upload.created_by)) {
+          return json({ error: "multipart upload not found" }, 404);
+        }
+        const parts = await env.DB.prepare(
+          `SELECT part_number AS partNumber, etag
+           FROM multipart_upload_parts
+           WHERE upload_id = ?
+           ORDER BY part_number ASC`,
+        )
+          .bind(uploadId)
+          .all<{ partNumber: number; etag: string }>();
+        return json({
+          uploadId,
+          id: upload.entry_id,
+          filename: upload.filename,
+          size: upload.size,
+          fingerprint: upload.fingerprint,
+          chunkSize: upload.chunk_size ?? MULTIPART_CHUNK_SIZE_BYTES,
+          parts: parts.results,
+        });
+      }
+
       if (url.pathname.startsWith("/api/entry/multipart/part/") && request.method === "PUT") {
         const seg = url.pathname.split("/");
         const uploadId = decodeURIComponent(seg[5] || "");
         const partNumber = parseMultipartPartNumber(seg[6] || null);
         if (!uploadId || !partNumber) return json({ error: "invalid upload id or part number" }, 400);
         const upload = await getMultipartUploadById(env, uploadId);
-        if (!upload) return json({ error: "multipart upload not found" }, 404);
+        if (!upload || upload.tus_offset !== null || upload.server_streamed || !canModifyOwned(principal, upload.created_by)) {
+          return json({ error: "multipart upload not found" }, 404);
+        }
 
         const bytes = await request.arrayBuffer();
-        const multipart = env.BUCKET.resumeMultipartUpload(upload.entry_id, upload.upload_id);
-        const part = await multipart.uploadPart(partNumber, bytes);
-        await env.DB.prepare(
-          `INSERT OR REPLACE INTO multipart_upload_parts (upload_id, part_number, etag)
-           VALUES (?, ?, ?)`,
-        )
-          .bind(uploadId, part.partNumber, part.etag)
-          .run();
+        const part = await uploadMultipartPart(env, upload, partNumber, bytes);
         return json({ ok: true, partNumber: part.partNumber });
       }
 
       if (url.pathname === "/api/entry/multipart/complete" && request.method === "POST") {
-        const body = (await request.json()) as { uploadId?: unknown };
+        const body = (await request.json()) as { uploadId?: unknown; sha256?: unknown; options?: unknown };
         const uploadId = typeof body.uploadId === "string" ? body.uploadId : "";
         if (!uploadId) return json({ error: "uploadId is required" }, 400);
         const upload = await getMultipartUploadById(env, uploadId);
-        if (!upload) return json({ error: "multipart upload not found" }, 404);
-        const parts = await env.DB.prepare(
-          `SELECT part_number AS partNumber, etag
-           FROM multipart_upload_parts
-           WHERE upload_id = ?
-           ORDER BY part_number ASC`,
-        )
-          .bind(uploadId)
-          .all<{ partNumber: number; etag: string }>();
-        if (!parts.results.length) {
-          return json({ error: "no uploaded parts found" }, 400);
+        if (!upload || upload.tus_offset !== null || upload.server_streamed || !canModifyOwned(principal, upload.created_by)) {
+          return json({ error: "multipart upload not found" }, 404);
         }
-
-        const multipart = env.BUCKET.resumeMultipartUpload(upload.entry_id, upload.upload_id);
-        await multipart.complete(parts.results);
-        await env.DB.prepare(
-          "INSERT INTO entries (id, filename, content_type, size, expiration_time, note) VALUES (?, ?, ?, ?, ?, ?)",
-        )
-          .bind(
-            upload.entry_id,
-            upload.filename,
-            upload.content_type || "application/octet-stream",
-            upload.size || 0,
-            upload.expiration_time,
-            upload.note,
-          )
-          .run();
-        await env.DB.prepare("DELETE FROM multipart_upload_parts WHERE upload_id = ?").bind(uploadId).run();
-        await env.DB.prepare("DELETE FROM multipart_uploads WHERE upload_id = ?").bind(uploadId).run();
-        return json({ id: upload.entry_id, filename: upload.filename });
+        // A resumed upload is finished with the options on the form that resumed it, replacing those it started with.
+        if (body.options && typeof body.options === "object") {
+          const fields = body.options as Record<string, unknown>;
+          const options = await parseUploadOptions((key) => fields[key]);
+          const aliasResult = await resolveEntryAlias(env, fields.alias, upload.entry_id);
+          if ("error" in aliasResult) return json({ error: aliasResult.error }, aliasResult.status);
+          upload.note = options.note;
+          upload.expiration_time = options.expiration;
+          upload.password_hash = options.passwordHash;
+          upload.max_downloads = options.maxDownloads;
+          upload.alias = aliasResult.alias;
+        }
+        const expected = expectedSha256(request.headers, body.sha256) ?? upload.expected_sha256;
+        if (expected === "invalid") return json({ error: "invalid sha256 digest" }, 400);
+        const result = await completeMultipartEntry(env, upload, expected);
+        if ("error" in result) return json({ error: result.error, sha256: result.sha256 }, result.status);
+        return json({ id: upload.entry_id, filename: upload.filename, alias: upload.alias, sha256: result.sha256 });
       }
 
       if (url.pathname === "/api/entry/multipart/abort" && request.method === "POST") {
@@ -3881,19 +8622,169 @@ export default {
         const uploadId = typeof body.uploadId === "string" ? body.uploadId : "";
         if (!uploadId) return json({ error: "uploadId is required" }, 400);
         const upload = await getMultipartUploadById(env, uploadId);
-        if (upload) {
-          try {
-            await env.BUCKET.resumeMultipartUpload(upload.entry_id, upload.upload_id).abort();
-          } catch {
-            // Ignore abort failures so local metadata can still be cleaned.
-          }
-          await env.DB.prepare("DELETE FROM multipart_upload_parts WHERE upload_id = ?").bind(uploadId).run();
-          await env.DB.prepare("DELETE FROM multipart_uploads WHERE upload_id = ?").bind(uploadId).run();
+        if (upload && canModifyOwned(principal, upload.created_by)) {
+          await abortMultipartUpload(env, upload);
         }
         return json({ ok: true });
       }
 
+      if (url.pathname === "/api/entry/multipart/abort-stale" && request.method === "POST") {
+        const aborted = await cleanupStaleMultipartUploads(env, new Date().toISOString(), await staleUploadHours(env), 1000);
+        return json({ ok: true, aborted });
+      }
+
+      if (url.pathname === "/api/tus" || url.pathname.startsWith("/api/tus/")) {
+        const override = request.headers.get("X-HTTP-Method-Override");
+        const method = request.method === "POST" && override ? override.toUpperCase() : request.method;
+        if (request.headers.get("Tus-Resumable") !== TUS_VERSION) {
+          return tusResponse(412, { "Tus-Version": TUS_VERSION });
+        }
+
+        if (url.pathname === "/api/tus" && method === "POST") {
+          if (request.headers.has("Upload-Defer-Length")) return tusError("Upload-Defer-Length is not supported", 400);
+          const length = parseByteLength(request.headers.get("Upload-Length"));
+          if (length === null) return tusError("Upload-Length is required", 400);
+          if (length > TUS_MAX_SIZE) return tusError("upload exceeds Tus-Max-Size", 413);
+          const limit = await maxUploadBytes(env);
+          if (limit && length > limit) return tusError(`upload exceeds the ${limit} byte limit`, 413);
+          const meta = parseTusMetadata(request.headers.get("Upload-Metadata"));
+          if (!meta) return tusError("invalid Upload-Metadata", 400);
+          const options = await parseUploadOptions((key) => meta.get(key));
+          const aliasResult = await resolveEntryAlias(env, meta.get("alias"), null);
+          if ("error" in aliasResult) return tusError(aliasResult.error, aliasResult.status);
+          const expected = expectedSha256(new Headers(), meta.get("sha256"));
+          if (expected === "invalid") return tusError("invalid sha256 digest", 400);
+          const entryId = await generateUniqueID(env, "entry");
+          const expiresAt = new Date(Date.now() + TUS_UPLOAD_TTL_SECONDS * 1000);
+          const upload: MultipartUploadRow = {
+            upload_id: "",
+            entry_id: entryId,
+            filename: (meta.get("filename") || meta.get("name") || "").trim().slice(0, 255) || `upload-${generateID()}.bin`,
+            content_type: (meta.get("filetype") || meta.get("type") || "").trim() || "application/octet-stream",
+            size: length,
+            expiration_time: options.expiration,
+            note: options.note,
+            created_by: principal.userId,
+            password_hash: options.passwordHash,
+            max_downloads: options.maxDownloads,
+            alias: aliasResult.alias,
+            expected_sha256: expected,
+            tus_offset: 0,
+            tus_parts: 0,
+            tus_tail_size: 0,
+            expires_at: expiresAt.toISOString(),
+            fingerprint: null,
+            chunk_size: MULTIPART_CHUNK_SIZE_BYTES,
+            guest_link_id: null,
+            relative_path: sanitizeRelativePath(meta.get("relativePath")),
+            server_streamed: 0,
+          };
+          const location = `${url.origin}/api/tus/${encodeURIComponent(entryId)}`;
+
+          // R2 can't complete a multipart upload without parts, so an empty file becomes an entry right away.
+          if (length === 0) {
+            const empty = new Uint8Array(0);
+            const hash = await sha256Hex(empty);
+            if (expected && expected !== hash) return tusError("sha256 mismatch", 422);
+            const stored = await storeBlob(env, hash, entryId, empty, upload.content_type);
+            await insertUploadedEntry(env, upload, stored.hash, stored.objectKey);
+            return tusResponse(201, { Location: location, "Upload-Offset": "0" });
+          }
+
+          const multipart = await env.BUCKET.createMultipartUpload(entryId, {
+            httpMetadata: { contentType: upload.content_type },
+          });
+          await env.DB.prepare(
+            `INSERT INTO multipart_uploads
+              (upload_id, entry_id, filename, content_type, size, expiration_time, note, created_by, password_hash, max_downloads, alias,
+               expected_sha256, tus_offset, expires_at, chunk_size, relative_path)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?)`,
+          )
+            .bind(
+              multipart.uploadId,
+              entryId,
+              upload.filename,
+              upload.content_type,
+              length,
+              upload.expiration_time,
+              upload.note,
+              upload.created_by,
+              upload.password_hash,
+              upload.max_downloads,
+              upload.alias,
+              expected,
+              upload.expires_at,
+              upload.chunk_size,
+              upload.relative_path,
+            )
+            .run();
+          return tusResponse(201, { Location: location, "Upload-Expires": expiresAt.toUTCString() });
+        }
+
+        const id = url.pathname.startsWith("/api/tus/") ? decodeURIComponent(url.pathname.slice("/api/tus/".length)) : "";
+        const found = id ? await getMultipartUploadByEntryId(env, id) : null;
+        const upload = found && found.tus_offset !== null && canModifyOwned(principal, found.created_by) ? found : null;
+        if (upload && isExpired(upload.expires_at)) {
+          await abortMultipartUpload(env, upload);
+          return tusError("upload expired", 410);
+        }
+        const expires: Record<string, string> = upload?.expires_at ? { "Upload-Expires": new Date(upload.expires_at).toUTCString() } : {};
+
+        if (method === "HEAD" && id) {
+          if (!upload) {
+            // Finished uploads no longer have a multipart row; report them as complete so clients stop resuming.
+            const entry = await getEntryById(env, id);
+            if (!entry || !canModifyOwned(principal, entry.created_by)) return tusResponse(404);
+            return tusResponse(200, { "Upload-Offset": String(entry.size), "Upload-Length": String(entry.size) });
+          }
+          return tusResponse(200, {
+            "Upload-Offset": String(upload.tus_offset),
+            "Upload-Length": String(upload.size),
+            "Upload-Metadata": `filename ${bytesToBase64(new TextEncoder().encode(upload.filename))},filetype ${bytesToBase64(
+              new TextEncoder().encode(upload.content_type),
+            )}`,
+            ...expires,
+          });
+        }
+
+        if (method === "PATCH" && id) {
+          if (!upload) return tusError("upload not found", 404);
+          const contentType = (request.headers.get("Content-Type") || "").split(";")[0].trim().toLowerCase();
+          if (contentType !== "application/offset+octet-stream") {
+            return tusError("Content-Type must be application/offset+octet-stream", 415);
+          }
+          const offset = parseByteLength(request.headers.get("Upload-Offset"));
+          if (offset === null) return tusError("Upload-Offset is required", 400);
+          // Concurrent PATCHes for the same offset both pass this check; tus clients send one at a time.
+          if (offset !== upload.tus_offset) return tusError("Upload-Offset does not match the current offset", 409);
+          const contentLength = parseByteLength(request.headers.get("Content-Length"));
+          if (contentLength !== null && offset + contentLength > upload.size) {
+            return tusError("body exceeds Upload-Length", 400);
+          }
+          if (!request.body) return tusResponse(204, { "Upload-Offset": String(offset), ...expires });
+          const result = await appendTusUpload(env, upload, request.body);
+          if ("error" in result) return tusError(result.error, result.status);
+          return tusResponse(204, { "Upload-Offset": String(result.offset), ...expires });
+        }
+
+        if (method === "DELETE" && id) {
+          if (!upload) return tusError("upload not found", 404);
+          await abortMultipartUpload(env, upload);
+          return tusResponse(204);
+        }
+
+        return tusError("method not allowed", 405);
+      }
+
+      // Deprecated for files: the form is parsed in memory, so bodies are capped at FORM_UPLOAD_MAX_BYTES (and the
+      // configured limit) before parsing. File uploads should use /api/entry/stream; pasted text stays here.
       if (url.pathname === "/api/entry" && request.method === "POST") {
+        const declared = parseByteLength(request.headers.get("Content-Length"));
+        if (declared === null) return json({ error: "Content-Length is required" }, 411);
+        const limit = await maxUploadBytes(env);
+        if (declared > FORM_UPLOAD_MAX_BYTES) {
+          return json({ error: `form uploads are limited to ${FORM_UPLOAD_MAX_BYTES} bytes; use /api/entry/stream` }, 413);
+        }
         const fd = await request.formData();
         const file = fd.get("file") as File | null;
         const pastedText = (fd.get("pastedText") as string | null)?.trim() || "";
@@ -3901,35 +8792,65 @@ export default {
         if (!file && !pastedText) {
           return json({ error: "file or pastedText is required" }, 400);
         }
+        if (file && limit && file.size > limit) return json({ error: `upload exceeds the ${limit} byte limit` }, 413);
 
-        const id = generateID();
-        const note = ((fd.get("note") as string | null) || "").trim() || null;
-        const expirationDays = parseExpirationDays((fd.get("expirationDays") as string | null) || null);
-        const expiration = expirationToISO(expirationDays);
-
-        let filename = `paste-${id}.txt`;
-        let contentType = "text/plain";
-        let bytes: ArrayBuffer | Uint8Array;
-        let size = 0;
+        const aliasResult = await resolveEntryAlias(env, fd.get("alias"), null);
+        if ("error" in aliasResult) return json({ error: aliasResult.error }, aliasResult.status);
+        const expected = expectedSha256(request.headers, fd.get("sha256"));
+        if (expected === "invalid") return json({ error: "invalid sha256 digest" }, 400);
+        const id = await generateUniqueID(env, "entry");
+        const options = await parseUploadOptions((key) => fd.get(key));
 
         if (file) {
-          filename = file.name;
-          contentType = file.type || "application/octet-stream";
-          bytes = await file.arrayBuffer();
-          size = file.size;
-        } else {
-          bytes = new TextEncoder().encode(pastedText);
-          size = bytes.byteLength;
+          const entry: UploadedEntry = {
+            entry_id: id,
+            filename: file.name,
+            content_type: file.type || "application/octet-stream",
+            size: file.size,
+            expiration_time: options.expiration,
+            note: options.note,
+            created_by: principal.userId,
+            guest_link_id: null,
+            password_hash: options.passwordHash,
+            max_downloads: options.maxDownloads,
+            alias: aliasResult.alias,
+            relative_path: sanitizeRelativePath(fd.get("relativePath")),
+          };
+          const result = await streamUploadedEntry(env, entry, file.stream(), limit, expected);
+          if ("error" in result) return json({ error: result.error, sha256: result.sha256 }, result.status);
+          const res = json({ id, filename: entry.filename, alias: entry.alias, sha256: result.sha256 });
+          res.headers.set("Deprecation", "true");
+          res.headers.set("Link", '</api/entry/stream>; rel="successor-version"');
+          return res;
         }
 
-        await env.BUCKET.put(id, bytes, { httpMetadata: { contentType } });
+        const filename = `paste-${id}.txt`;
+        const bytes = new TextEncoder().encode(pastedText);
+        const sha256 = await sha256Hex(bytes);
+        if (expected && expected !== sha256) return json({ error: "sha256 mismatch", sha256 }, 422);
+        const stored = await storeBlob(env, sha256, id, bytes, "text/plain");
         await env.DB.prepare(
-          "INSERT INTO entries (id, filename, content_type, size, expiration_time, note) VALUES (?, ?, ?, ?, ?, ?)",
+          `INSERT INTO entries
+            (id, filename, content_type, size, expiration_time, note, created_by, password_hash, max_downloads, alias, sha256, object_key)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         )
-          .bind(id, filename, contentType, size, expiration, note)
+          .bind(
+            id,
+            filename,
+            "text/plain",
+            bytes.byteLength,
+            options.expiration,
+            options.note,
+            principal.userId,
+            options.passwordHash,
+            options.maxDownloads,
+            aliasResult.alias,
+            stored.hash,
+            stored.objectKey,
+          )
           .run();
 
-        return json({ id, filename });
+        return json({ id, filename, alias: aliasResult.alias, sha256 });
       }
 
       if (url.pathname === "/api/entries" && request.method === "GET") {
@@ -3942,6 +8863,14 @@ export default {
              e.upload_time,
              e.expiration_time,
              e.note,
+             e.guest_link_id,
+             e.created_by,
+             e.password_hash IS NOT NULL AS has_password,
+             e.max_downloads,
+             e.served_downloads,
+             e.alias,
+             e.relative_path,
+             u.username AS created_by_name,
              COALESCE(d.count, 0) AS download_count
            FROM entries e
            LEFT JOIN (
@@ -3949,11 +8878,69 @@ export default {
              FROM download_events
              GROUP BY entry_id
            ) d ON d.entry_id = e.id
+           LEFT JOIN users u ON u.id = e.created_by
            ORDER BY e.upload_time DESC`,
         ).all();
         return json(res.results);
       }
 
+      if (url.pathname === "/api/entries/zip" && request.method === "GET") {
+        const ids = [...new Set((url.searchParams.get("ids") || "").split(",").map((v) => v.trim()).filter(Boolean))];
+        if (!ids.length) return json({ error: "ids is required" }, 400);
+        if (ids.length > MAX_ZIP_ENTRIES) return json({ error: `At most ${MAX_ZIP_ENTRIES} files per archive` }, 400);
+
+        const entries: EntryRow[] = [];
+        for (const id of ids) {
+          const entry = await getEntryById(env, id);
+          if (!entry || isExpired(entry.expiration_time)) return json({ error: `File not found: ${id}` }, 404);
+          if (entry.max_downloads !== null && entry.served_downloads >= entry.max_downloads) {
+            return json({ error: `Download limit reached: ${entry.filename}` }, 410);
+          }
+          entries.push(entry);
+        }
+        const claimed: string[] = [];
+        const exhausted: string[] = [];
+        for (const entry of entries) {
+          if (entry.max_downloads === null) continue;
+          const claim = await claimEntryDownload(env, entry.id);
+          if (!claim) {
+            // The archive won't be sent, so the downloads already taken for it go back.
+            for (const id of claimed) await releaseEntryDownload(env, id);
+            return json({ error: `Download limit reached: ${entry.filename}` }, 410);
+          }
+          claimed.push(entry.id);
+          if (claim.remaining <= 0) exhausted.push(entry.id);
+        }
+        for (const entry of entries) {
+          await env.DB.prepare(
+            "INSERT INTO download_events(entry_id, ip, user_agent) VALUES (?, ?, ?)",
+          )
+            .bind(entry.id, request.headers.get("cf-connecting-ip"), request.headers.get("user-agent"))
+            .run();
+        }
+
+        const names = uniqueZipNames(entries.map((entry) => entry.filename));
+        const archive = zipArchiveStream(
+          entries.map((entry, i) => ({
+            name: names[i],
+            size: entry.size,
+            modifiedMs: sqlTimestampMs(entry.upload_time),
+            open: async () => (await env.BUCKET.get(entryObjectKey(entry)))?.body ?? null,
+          })),
+        );
+        const response = new Response(archive, {
+          headers: withCors({
+            "Content-Type": "application/zip",
+            "Content-Disposition": contentDisposition("attachment", `picoshare-${new Date().toISOString().slice(0, 10)}.zip`),
+            "Cache-Control": "no-store",
+          }),
+        });
+        if (!exhausted.length) return response;
+        return afterBodyStreamed(response, () =>
+          ctx.waitUntil(Promise.all(exhausted.map((id) => deleteEntryById(env, id)))),
+        );
+      }
+
       if (url.pathname.startsWith("/api/entry/") && !url.pathname.endsWith("/downloads") && request.method === "GET") {
         const id = decodeURIComponent(url.pathname.split("/").pop() || "");
         const entry = await getEntryById(env, id);
@@ -3964,8 +8951,15 @@ export default {
         )
           .bind(id)
           .first<{ count: number }>();
+        const creator = entry.created_by ? await getUserById(env, entry.created_by) : null;
+        const { password_hash: passwordHash, object_key: _objectKey, ...publicEntry } = entry;
 
-        return json({ ...entry, download_count: Number(count?.count || 0) });
+        return json({
+          ...publicEntry,
+          has_password: Boolean(passwordHash),
+          created_by_name: creator?.username ?? null,
+          download_count: Number(count?.count || 0),
+        });
       }
 
       if (url.pathname.startsWith("/api/entry/") && url.pathname.endsWith("/downloads") && request.method === "GET") {
@@ -4000,16 +8994,52 @@ export default {
         return json({ total: Number(totalRes?.count || 0), events: events.results });
       }
 
+      if (url.pathname.startsWith("/api/entry/") && url.pathname.endsWith("/signed-url") && request.method === "POST") {
+        const id = decodeURIComponent(url.pathname.split("/")[3] || "");
+        const entry = await getEntryById(env, id);
+        if (!entry) return json({ error: "not found" }, 404);
+        if (!canModifyOwned(principal, entry.created_by)) return forbidden();
+
+        const body = (await request.json()) as { expiresInHours?: unknown; maxUses?: unknown; ip?: unknown };
+        const hours = Number(body.expiresInHours ?? SIGNED_URL_DEFAULT_HOURS);
+        if (!Number.isFinite(hours) || hours <= 0 || hours > SIGNED_URL_MAX_HOURS) {
+          return json({ error: `expiresInHours must be between 0 and ${SIGNED_URL_MAX_HOURS}` }, 400);
+        }
+        const maxUses = body.maxUses == null || body.maxUses === "" ? null : Number(body.maxUses);
+        if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses <= 0)) {
+          return json({ error: "maxUses must be a positive integer" }, 400);
+        }
+        const ip = typeof body.ip === "string" && body.ip.trim() ? body.ip.trim().slice(0, 64) : null;
+
+        const expiresAtSec = Math.floor(Date.now() / 1000 + hours * 3600);
+        const expiresAt = new Date(expiresAtSec * 1000).toISOString();
+        const nonce = maxUses ? randomToken(12) : null;
+        if (nonce) {
+          await env.DB.prepare(
+            "INSERT INTO signed_url_uses (nonce, entry_id, max_uses, expires_at, created_by) VALUES (?, ?, ?, ?, ?)",
+          )
+            .bind(nonce, id, maxUses, expiresAt, principal.userId)
+            .run();
+        }
+        const query = await signDownloadQuery(downloadSigningSecret(env), id, { expiresAtSec, nonce, ip });
+        return json({ url: `${url.origin}/-${encodeURIComponent(id)}?${query}`, expiresAt, maxUses, ip });
+      }
+
       if (url.pathname.startsWith("/api/entry/") && request.method === "PUT") {
         const id = decodeURIComponent(url.pathname.split("/").pop() || "");
         const entry = await getEntryById(env, id);
         if (!entry) return json({ error: "not found" }, 404);
+        if (!canModifyOwned(principal, entry.created_by)) return forbidden();
 
         const body = (await request.json()) as {
           filename?: string;
           note?: string;
           deleteAfterExpiration?: boolean;
           expirationDays?: number;
+          password?: string;
+          removePassword?: boolean;
+          maxDownloads?: number | null;
+          alias?: string | null;
         };
 
         const filename = (body.filename || entry.filename).trim().slice(0, 255);
@@ -4018,10 +9048,25 @@ export default {
         const expDays = Number(body.expirationDays || 0);
         const expiration = deleteAfter && expDays > 0 ? expirationToISO(expDays) : null;
 
+        const newPassword = normalizeEntryPassword(body.password);
+        const passwordHash = newPassword
+          ? await hashPassword(newPassword)
+          : body.removePassword
+            ? null
+            : entry.password_hash;
+
+        const maxDownloads = body.maxDownloads === undefined ? entry.max_downloads : parseMaxDownloads(body.maxDownloads);
+        let alias = entry.alias;
+        if (body.alias !== undefined) {
+          const aliasResult = await resolveEntryAlias(env, body.alias, id);
+          if ("error" in aliasResult) return json({ error: aliasResult.error }, aliasResult.status);
+          alias = aliasResult.alias;
+        }
+
         await env.DB.prepare(
-          "UPDATE entries SET filename = ?, note = ?, expiration_time = ? WHERE id = ?",
+          "UPDATE entries SET filename = ?, note = ?, expiration_time = ?, password_hash = ?, max_downloads = ?, alias = ? WHERE id = ?",
         )
-          .bind(filename || entry.filename, note, expiration, id)
+          .bind(filename || entry.filename, note, expiration, passwordHash, maxDownloads, alias, id)
           .run();
 
         return json({ ok: true });
@@ -4029,13 +9074,15 @@ export default {
 
       if (url.pathname.startsWith("/api/entry/") && request.method === "DELETE") {
         const id = decodeURIComponent(url.pathname.split("/").pop() || "");
+        const entry = await getEntryById(env, id);
+        if (entry && !canModifyOwned(principal, entry.created_by)) return forbidden();
         await deleteEntryById(env, id);
         return json({ ok: true });
       }
 
       if (url.pathname === "/api/guest-links" && request.method === "GET") {
         const res = await env.DB.prepare(
-          "SELECT id, label, created_time, max_file_bytes, max_file_lifetime_days, max_file_uploads, url_expires, upload_count FROM guest_links ORDER BY COALESCE(created_time, url_expires) DESC",
+          "SELECT id, label, created_time, max_file_bytes, max_file_lifetime_days, max_file_uploads, url_expires, upload_count, created_by FROM guest_links ORDER BY COALESCE(created_time, url_expires) DESC",
         ).all();
         return json(res.results);
       }
@@ -4049,7 +9096,7 @@ export default {
           url_expires?: string | null;
         };
 
-        const id = generateID();
+        const id = await generateUniqueID(env, "guest_link");
         const label = (body.label || "").trim().slice(0, 120) || null;
         const maxFileBytes = Number(body.max_file_bytes || 0) || null;
         const maxFileLife = Number(body.max_file_lifetime_days || 0) || null;
@@ -4057,9 +9104,9 @@ export default {
         const urlExpires = parseDateFromUnknown(body.url_expires);
 
         await env.DB.prepare(
-          "INSERT INTO guest_links (id, label, max_file_bytes, max_file_lifetime_days, max_file_uploads, url_expires, created_time, upload_count) VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, 0)",
+          "INSERT INTO guest_links (id, label, max_file_bytes, max_file_lifetime_days, max_file_uploads, url_expires, created_time, upload_count, created_by) VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, 0, ?)",
         )
-          .bind(id, label, maxFileBytes, maxFileLife, maxFileUploads, urlExpires)
+          .bind(id, label, maxFileBytes, maxFileLife, maxFileUploads, urlExpires, principal.userId)
           .run();
 
         return json({ id });
@@ -4067,13 +9114,199 @@ export default {
 
       if (url.pathname.startsWith("/api/guest-links/") && request.method === "DELETE") {
         const id = decodeURIComponent(url.pathname.split("/").pop() || "");
+        const link = await getGuestLinkById(env, id);
+        if (link && !canModifyOwned(principal, link.created_by)) return forbidden();
         await env.DB.prepare("DELETE FROM guest_links WHERE id = ?").bind(id).run();
         return json({ ok: true });
       }
 
+      if (url.pathname === "/api/users" && request.method === "GET") {
+        const res = await env.DB.prepare(
+          "SELECT id, username, role, created_time FROM users ORDER BY created_time ASC",
+        ).all<UserRow>();
+        return json(res.results);
+      }
+
+      if (url.pathname === "/api/users" && request.method === "POST") {
+        const body = (await request.json()) as {
+          username?: unknown;
+          password?: unknown;
+          role?: unknown;
+        };
+        const username = sanitizeUsername(body.username);
+        if (!username) return json({ error: "invalid username" }, 400);
+        const password = typeof body.password === "string" ? body.password : "";
+        if (password.length < 8 || password.length > 128) {
+          return json({ error: "password must be 8-128 characters" }, 400);
+        }
+        const role = normalizeUserRole(body.role);
+        if (!role) return json({ error: "invalid role" }, 400);
+        const existing = await env.DB.prepare("SELECT id FROM users WHERE username = ?")
+          .bind(username)
+          .first<{ id: string }>();
+        if (existing) return json({ error: "username already exists" }, 409);
+
+        const id = generateID();
+        await env.DB.prepare(
+          "INSERT INTO users (id, username, password_hash, role, created_time) VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)",
+        )
+          .bind(id, username, await hashPassword(password), role)
+          .run();
+        return json({ id, username, role });
+      }
+
+      if (url.pathname.startsWith("/api/users/") && request.method === "PUT") {
+        const id = decodeURIComponent(url.pathname.split("/").pop() || "");
+        const user = await getUserById(env, id);
+        if (!user) return json({ error: "not found" }, 404);
+        const body = (await request.json()) as { role?: unknown; password?: unknown };
+
+        if (body.role !== undefined) {
+          const role = normalizeUserRole(body.role);
+          if (!role) return json({ error: "invalid role" }, 400);
+          if (user.id === principal.userId && role !== "admin") {
+            return json({ error: "cannot demote yourself" }, 400);
+          }
+          await env.DB.prepare("UPDATE users SET role = ? WHERE id = ?").bind(role, id).run();
+        }
+        if (body.password !== undefined) {
+          const password = typeof body.password === "string" ? body.password : "";
+          if (password.length < 8 || password.length > 128) {
+            return json({ error: "password must be 8-128 characters" }, 400);
+          }
+          await env.DB.prepare("UPDATE users SET password_hash = ? WHERE id = ?")
+            .bind(await hashPassword(password), id)
+            .run();
+          await env.DB.prepare("DELETE FROM sessions WHERE user_id = ? AND id != ?")
+            .bind(id, principal.sessionId || "")
+            .run();
+        }
+        return json({ ok: true });
+      }
+
+      if (url.pathname.startsWith("/api/users/") && request.method === "DELETE") {
+        const id = decodeURIComponent(url.pathname.split("/").pop() || "");
+        if (id === principal.userId) return json({ error: "cannot delete yourself" }, 400);
+        await env.DB.prepare("DELETE FROM sessions WHERE user_id = ?").bind(id).run();
+        await env.DB.prepare("DELETE FROM api_tokens WHERE created_by = ?").bind(id).run();
+        await env.DB.prepare("DELETE FROM users WHERE id = ?").bind(id).run();
+        return json({ ok: true });
+      }
+
+      if (url.pathname === "/api/2fa" && request.method === "GET") {
+        const credential = await getTotpCredential(env, totpOwnerKey(principal));
+        let remaining = 0;
+        try {
+          remaining = (JSON.parse(credential?.recovery_codes || "[]") as string[]).length;
+        } catch {
+          remaining = 0;
+        }
+        return json({ enabled: Boolean(credential?.enabled), recoveryCodesRemaining: remaining });
+      }
+
+      if (url.pathname === "/api/2fa/setup" && request.method === "POST") {
+        const ownerKey = totpOwnerKey(principal);
+        const existing = await getTotpCredential(env, ownerKey);
+        if (existing?.enabled) return json({ error: "two-factor authentication is already enabled" }, 409);
+        const secret = base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+        await env.DB.prepare(
+          "REPLACE INTO totp_credentials (owner_key, secret, enabled, recovery_codes, last_counter, created_time) VALUES (?, ?, 0, NULL, NULL, CURRENT_TIMESTAMP)",
+        )
+          .bind(ownerKey, secret)
+          .run();
+        const uri = totpUri(principal.username, secret);
+        return json({ secret, otpauthUri: uri, qrSvg: qrCodeSvg(uri) });
+      }
+
+      if (
+        (url.pathname === "/api/2fa/enable" || url.pathname === "/api/2fa/disable" || url.pathname === "/api/2fa/recovery-codes") &&
+        request.method === "POST"
+      ) {
+        const body = (await request.json()) as { code?: unknown };
+        const code = typeof body.code === "string" ? body.code : "";
+        const ownerKey = totpOwnerKey(principal);
+        const credential = await getTotpCredential(env, ownerKey);
+        if (!credential) return json({ error: "two-factor authentication is not set up" }, 400);
+        const enabling = url.pathname === "/api/2fa/enable";
+        if (enabling === Boolean(credential.enabled)) {
+          return json({ error: enabling ? "already enabled" : "not enabled" }, 409);
+        }
+        if (!code || !(await consumeSecondFactor(env, credential, code))) {
+          return json({ error: "invalid two-factor code" }, 400);
+        }
+
+        if (url.pathname === "/api/2fa/disable") {
+          await env.DB.prepare("DELETE FROM totp_credentials WHERE owner_key = ?").bind(ownerKey).run();
+          return json({ ok: true, enabled: false });
+        }
+        if (enabling) {
+          await env.DB.prepare("UPDATE totp_credentials SET enabled = 1 WHERE owner_key = ?").bind(ownerKey).run();
+          // Sessions that signed in without the second factor no longer count.
+          await env.DB.prepare(
+            "DELETE FROM sessions WHERE COALESCE(user_id, ?) = ? AND id != ?",
+          )
+            .bind(BOOTSTRAP_TOTP_OWNER, ownerKey, principal.sessionId || "")
+            .run();
+        }
+        const recoveryCodes = generateRecoveryCodes();
+        await storeRecoveryCodes(env, ownerKey, recoveryCodes);
+        return json({ ok: true, enabled: true, recoveryCodes });
+      }
+
+      if (url.pathname === "/api/auth-lockouts" && request.method === "GET") {
+        const res = await env.DB.prepare(
+          `SELECT kind, subject, failures, last_failure_at, locked_until FROM auth_failures
+           WHERE locked_until > ? ORDER BY locked_until DESC`,
+        )
+          .bind(new Date().toISOString())
+          .all<AuthFailureRow>();
+        return json(res.results || []);
+      }
+
+      if (url.pathname.startsWith("/api/auth-lockouts/") && request.method === "DELETE") {
+        const [kind, subject] = url.pathname.slice("/api/auth-lockouts/".length).split("/").map(decodeURIComponent);
+        if ((kind !== "ip" && kind !== "target") || !subject) return json({ error: "invalid lockout" }, 400);
+        await env.DB.prepare("DELETE FROM auth_failures WHERE kind = ? AND subject = ?").bind(kind, subject).run();
+        return json({ ok: true });
+      }
+
+      if (url.pathname === "/api/tokens" && request.method === "GET") {
+        const res = await env.DB.prepare(
+          `SELECT t.id, t.name, t.scopes, t.created_by, t.created_time, t.last_used_at, u.username AS created_by_name
+           FROM api_tokens t
+           LEFT JOIN users u ON u.id = t.created_by
+           ORDER BY t.created_time DESC`,
+        ).all<ApiTokenRow & { created_by_name: string | null }>();
+        return json(res.results.map((row) => ({ ...row, scopes: normalizeApiTokenScopes(row.scopes) })));
+      }
+
+      if (url.pathname === "/api/tokens" && request.method === "POST") {
+        const body = (await request.json()) as { name?: unknown; scopes?: unknown };
+        const name = typeof body.name === "string" ? body.name.trim().slice(0, 120) : "";
+        if (!name) return json({ error: "name is required" }, 400);
+        const scopes = normalizeApiTokenScopes(body.scopes);
+        if (!scopes.length) return json({ error: "at least one scope is required" }, 400);
+
+        const id = generateID();
+        const token = `${API_TOKEN_PREFIX}${randomToken(24)}`;
+        await env.DB.prepare(
+          "INSERT INTO api_tokens (id, name, token_hash, scopes, created_by, created_time) VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)",
+        )
+          .bind(id, name, await sha256Hex(token), scopes.join(","), principal.userId)
+          .run();
+        // The plain token is only ever returned here.
+        return json({ id, name, scopes, token });
+      }
+
+      if (url.pathname.startsWith("/api/tokens/") && request.method === "DELETE") {
+        const id = decodeURIComponent(url.pathname.split("/").pop() || "");
+        await env.DB.prepare("DELETE FROM api_tokens WHERE id = ?").bind(id).run();
+        return json({ ok: true });
+      }
+
       if (url.pathname === "/api/settings" && request.method === "GET") {
         const rows = await env.DB.prepare(
-          "SELECT key, value FROM settings WHERE key IN ('store_forever', 'default_expiration_days')",
+          "SELECT key, value FROM settings WHERE key IN ('store_forever', 'default_expiration_days', 'require_signed_urls', 'share_link_mode', 'entry_id_length', 'guest_link_id_length', 'max_upload_bytes', 'stale_upload_hours')",
         ).all<{ key: string; value: string }>();
 
         const map = new Map<string, string>();
@@ -4082,6 +9315,12 @@ export default {
         return json({
           storeForever: boolFromSetting(map.get("store_forever") ?? "1"),
           defaultDays: Number(map.get("default_expiration_days") ?? "30"),
+          requireSignedUrls: boolFromSetting(map.get("require_signed_urls") ?? "0"),
+          shareLinkMode: shareLinkMode(map.get("share_link_mode") ?? null),
+          entryIdLength: parseIdLength(map.get("entry_id_length")) ?? ID_LENGTH,
+          guestLinkIdLength: parseIdLength(map.get("guest_link_id_length")) ?? ID_LENGTH,
+          maxUploadBytes: parseUploadLimit(map.get("max_upload_bytes")) ?? 0,
+          staleUploadHours: parseStaleUploadHours(map.get("stale_upload_hours")) ?? DEFAULT_STALE_UPLOAD_HOURS,
         });
       }
 
@@ -4089,8 +9328,33 @@ export default {
         const body = (await request.json()) as {
           storeForever?: boolean;
           defaultDays?: number;
+          requireSignedUrls?: boolean;
+          shareLinkMode?: string;
+          entryIdLength?: number;
+          guestLinkIdLength?: number;
+          maxUploadBytes?: number;
+          staleUploadHours?: number;
         };
 
+        if (body.shareLinkMode !== undefined && body.shareLinkMode !== "raw" && body.shareLinkMode !== "landing") {
+          return json({ error: "shareLinkMode must be raw or landing" }, 400);
+        }
+        const idLengths: Array<[IdKind, number]> = [];
+        for (const [field, kind] of [["entryIdLength", "entry"], ["guestLinkIdLength", "guest_link"]] as const) {
+          if (body[field] === undefined) continue;
+          const length = parseIdLength(body[field]);
+          if (length === null) {
+            return json({ error: `${field} must be an integer between ${ID_MIN_LENGTH} and ${ID_MAX_LENGTH}` }, 400);
+          }
+          idLengths.push([kind, length]);
+        }
+        const uploadLimit = body.maxUploadBytes === undefined ? undefined : parseUploadLimit(body.maxUploadBytes);
+        if (uploadLimit === null) return json({ error: "maxUploadBytes must be a non-negative integer" }, 400);
+        const staleHours = body.staleUploadHours === undefined ? undefined : parseStaleUploadHours(body.staleUploadHours);
+        if (staleHours === null) {
+          return json({ error: `staleUploadHours must be an integer between 1 and ${MAX_STALE_UPLOAD_HOURS}` }, 400);
+        }
+
         const storeForever = body.storeForever ? "1" : "0";
         const defaultDays = String(Math.max(1, Math.min(3650, Number(body.defaultDays || 30))));
 
@@ -4100,6 +9364,31 @@ export default {
         await env.DB.prepare("REPLACE INTO settings(key, value) VALUES ('default_expiration_days', ?)")
           .bind(defaultDays)
           .run();
+        if (typeof body.requireSignedUrls === "boolean") {
+          await env.DB.prepare("REPLACE INTO settings(key, value) VALUES ('require_signed_urls', ?)")
+            .bind(body.requireSignedUrls ? "1" : "0")
+            .run();
+        }
+        if (body.shareLinkMode !== undefined) {
+          await env.DB.prepare("REPLACE INTO settings(key, value) VALUES ('share_link_mode', ?)")
+            .bind(body.shareLinkMode)
+            .run();
+        }
+        for (const [kind, length] of idLengths) {
+          await env.DB.prepare("REPLACE INTO settings(key, value) VALUES (?, ?)")
+            .bind(ID_LENGTH_SETTINGS[kind], String(length))
+            .run();
+        }
+        if (uploadLimit !== undefined) {
+          await env.DB.prepare("REPLACE INTO settings(key, value) VALUES ('max_upload_bytes', ?)")
+            .bind(String(uploadLimit))
+            .run();
+        }
+        if (staleHours !== undefined) {
+          await env.DB.prepare("REPLACE INTO settings(key, value) VALUES ('stale_upload_hours', ?)")
+            .bind(String(staleHours))
+            .run();
+        }
 
         return json({ ok: true });
       }
@@ -4115,13 +9404,39 @@ export default {
           "SELECT COUNT(*) AS count FROM download_events",
         ).first<{ count: number }>();
 
+        // Physical bytes count each deduplicated blob once, plus entries stored before deduplication.
+        const blobStats = await env.DB.prepare(
+          "SELECT COALESCE(SUM(size), 0) AS total, COUNT(*) AS count FROM blobs",
+        ).first<{ total: number; count: number }>();
+        const legacyStats = await env.DB.prepare(
+          "SELECT COALESCE(SUM(size), 0) AS total FROM entries WHERE sha256 IS NULL",
+        ).first<{ total: number }>();
+
         const uploadDataBytes = Number(entryStats?.total || 0);
+        const staleHours = await staleUploadHours(env);
+        const pendingStats = await env.DB.prepare("SELECT COUNT(*) AS count FROM multipart_uploads").first<{ count: number }>();
+        const staleUploads = await env.DB.prepare(
+          `SELECT m.upload_id, m.filename, m.size, m.created_time, u.username AS created_by_name, m.guest_link_id,
+             (SELECT COUNT(*) FROM multipart_upload_parts p WHERE p.upload_id = m.upload_id) AS part_count
+           FROM multipart_uploads m
+           LEFT JOIN users u ON u.id = m.created_by
+           WHERE m.tus_offset IS NULL AND m.created_time <= ?
+           ORDER BY m.created_time ASC`,
+        )
+          .bind(staleUploadCutoff(new Date().toISOString(), staleHours))
+          .all();
 
         return json({
           upload_data_bytes: uploadDataBytes,
+          logical_data_bytes: uploadDataBytes,
+          physical_data_bytes: Number(blobStats?.total || 0) + Number(legacyStats?.total || 0),
+          blob_count: Number(blobStats?.count || 0),
           db_entry_count: Number(entryStats?.count || 0),
           db_guest_link_count: Number(guestStats?.count || 0),
           download_count: Number(downloadStats?.count || 0),
+          pending_upload_count: Number(pendingStats?.count || 0),
+          stale_upload_hours: staleHours,
+          stale_uploads: staleUploads.results,
         });
       }
 
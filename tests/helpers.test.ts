@@ -1,22 +1,295 @@
 import { describe, expect, it } from "vitest";
-import {
+import worker, {
   MAX_CLIPBOARD_CHARS,
+  base32Decode,
+  base32Encode,
   calculateClipboardStats,
+  claimEntryDownload,
   clipboardPasswordStorageKey,
   cleanupExpiredEntries,
+  cleanupExpiredTusUploads,
+  cleanupStaleMultipartUploads,
+  contentDisposition,
+  crc32,
   escapeHtml,
+  expectedSha256,
   expirationToISO,
+  formatByteSize,
+  generateID,
+  hashPassword,
+  ifRangeAllowsRange,
   isExpired,
+  isLinkPreviewBot,
+  isLegacyClipboardPasswordHash,
+  isNotModified,
+  landingPreviewKind,
+  lockoutDurationSeconds,
+  matchTotpCounter,
+  normalizeApiTokenScopes,
   normalizeClipboardPassword,
+  normalizeEntryPassword,
+  normalizeUserRole,
+  parseBasicAuthorization,
+  parseByteLength,
+  parseCookies,
   parseMultipartPartNumber,
+  parseRangeHeader,
+  parseStaleUploadHours,
+  parseTusMetadata,
+  parseUploadLimit,
   parseDateFromUnknown,
   parseExpirationDays,
+  parseIdLength,
+  parseMaxDownloads,
+  qrCodeMatrix,
+  qrCodeSvg,
+  releaseEntryDownload,
+  requiredRoleForRoute,
+  requiredScopeForRoute,
+  roleSatisfies,
   shouldUseMultipartUpload,
+  signDownloadQuery,
+  signSessionToken,
   sanitizeClipboardSlug,
+  sanitizeDownloadFilename,
+  sanitizeEntryAlias,
+  sanitizeRelativePath,
+  sanitizeUploadFingerprint,
+  sanitizeUsername,
+  sha256DigestField,
   sha256Hex,
+  storeBlob,
+  tokenScopesAllow,
+  totpCode,
+  uniqueZipNames,
   verifyClipboardPassword,
+  verifyDownloadQuery,
+  verifyPasswordHash,
+  verifySessionToken,
+  zipArchiveStream,
 } from "../src/index";
 
+// Workers-only stream classes used by the upload paths, reduced to what those paths rely on.
+class DigestStream extends WritableStream<Uint8Array> {
+  digest: Promise<ArrayBuffer>;
+  constructor(algorithm: string) {
+    const chunks: Uint8Array[] = [];
+    let resolve: (value: ArrayBuffer) => void = () => {};
+    const digest = new Promise<ArrayBuffer>((r) => {
+      resolve = r;
+    });
+    super({
+      write: (chunk) => {
+        chunks.push(chunk);
+      },
+      close: async () => {
+        resolve(await crypto.subtle.digest(algorithm, Buffer.concat(chunks)));
+      },
+    });
+    this.digest = digest;
+  }
+}
+
+class FixedLengthStream extends TransformStream<Uint8Array, Uint8Array> {
+  constructor(length: number) {
+    let seen = 0;
+    super({
+      transform: (chunk, controller) => {
+        seen += chunk.byteLength;
+        if (seen > length) throw new Error("too many bytes");
+        controller.enqueue(chunk);
+      },
+      flush: () => {
+        if (seen !== length) throw new Error("too few bytes");
+      },
+    });
+  }
+}
+
+if (!("DigestStream" in crypto)) Object.assign(crypto, { DigestStream });
+if (!("FixedLengthStream" in globalThis)) Object.assign(globalThis, { FixedLengthStream });
+
+const SHARED_SECRET = "test-shared-secret";
+const workerCtx = { waitUntil: () => {}, passThroughOnException: () => {} } as unknown as ExecutionContext;
+type WorkerEnv = Parameters<typeof worker.fetch>[1];
+
+// An in-memory stand-in for D1 and R2 that answers the statements the upload and download routes issue.
+// INSERTs are recorded per table as column/value objects; `seed` adds rows directly. `guestLink` is the one
+// row the guest_links table holds.
+function uploadTestEnv(options: { settings?: Record<string, string>; guestLink?: Record<string, unknown> } = {}) {
+  const settings = options.settings ?? {};
+  const guestLink = {
+    id: "g1",
+    label: null,
+    created_time: null,
+    max_file_bytes: null,
+    max_file_lifetime_days: null,
+    max_file_uploads: null,
+    url_expires: null,
+    upload_count: 0,
+    created_by: null,
+    ...options.guestLink,
+  };
+  const tables = new Map<string, Record<string, unknown>[]>();
+  const objects = new Map<string, Uint8Array>();
+  const parts = new Map<string, Map<number, Uint8Array>>();
+  const aborted: string[] = [];
+  let nextUpload = 0;
+  const rows = (table: string) => tables.get(table) ?? [];
+  const seed = (table: string, row: Record<string, unknown>) => tables.set(table, [...rows(table), row]);
+  const find = (table: string, key: string, value: unknown) => rows(table).find((row) => row[key] === value) ?? null;
+  // Columns the multipart INSERTs leave to their schema defaults.
+  const upload = (row: Record<string, unknown> | null) =>
+    row && {
+      created_by: null,
+      password_hash: null,
+      max_downloads: null,
+      alias: null,
+      expected_sha256: null,
+      tus_offset: null,
+      tus_parts: 0,
+      tus_tail_size: 0,
+      expires_at: null,
+      fingerprint: null,
+      guest_link_id: null,
+      relative_path: null,
+      server_streamed: 0,
+      ...row,
+    };
+  const values = (list: string, args: unknown[]) => {
+    let next = 0;
+    return list.split(",").map((value) => {
+      const token = value.trim();
+      if (token === "?") return args[next++];
+      return token === "NULL" ? null : Number(token);
+    });
+  };
+
+  const statement = (sql: string, args: unknown[]) => ({
+    first: async () => {
+      if (sql.includes("FROM settings WHERE key")) {
+        const value = settings[String(args[0])];
+        return value === undefined ? null : { value };
+      }
+      if (sql.includes("FROM guest_links WHERE id")) return args[0] === guestLink.id ? guestLink : null;
+      if (sql.includes("COUNT(*) AS count FROM multipart_uploads WHERE guest_link_id")) {
+        return { count: rows("multipart_uploads").filter((row) => row.guest_link_id === args[0]).length };
+      }
+      if (sql.includes("FROM multipart_uploads WHERE upload_id = ?")) {
+        return upload(find("multipart_uploads", "upload_id", args[0]));
+      }
+      if (sql.includes("FROM multipart_uploads WHERE entry_id = ?")) {
+        return upload(find("multipart_uploads", "entry_id", args[0]));
+      }
+      if (sql.includes("INSERT INTO blobs")) return { object_key: args[1], ref_count: 1 };
+      if (sql.includes("FROM sessions WHERE id = ?")) return find("sessions", "id", args[0]);
+      if (sql.includes("FROM users WHERE id = ?")) return find("users", "id", args[0]);
+      if (sql.includes("FROM entries WHERE id = ?")) return find("entries", "id", args[0]);
+      if (sql.includes("FROM entries WHERE alias = ?")) return find("entries", "alias", args[0]);
+      if (sql.includes("served_downloads + 1")) {
+        const row = find("entries", "id", args[1]);
+        if (!row || row.max_downloads === null || Number(row.served_downloads) >= Number(row.max_downloads)) return null;
+        row.served_downloads = Number(row.served_downloads) + 1;
+        return { remaining: Number(row.max_downloads) - Number(row.served_downloads) };
+      }
+      return null;
+    },
+    all: async () => {
+      if (sql.includes("WHERE ?2 = 1 OR m.created_by = ?3")) {
+        const visible = rows("multipart_uploads").filter((row) => args[1] === 1 || row.created_by === args[2]);
+        return { results: visible.map((row) => ({ ...upload(row), tus: row.tus_offset == null ? 0 : 1 })) };
+      }
+      if (sql.includes("FROM multipart_upload_parts")) {
+        const received = parts.get(String(args[0])) ?? new Map<number, Uint8Array>();
+        return {
+          results: [...received.keys()].sort((a, b) => a - b).map((n) => ({ partNumber: n, etag: `etag-${n}` })),
+        };
+      }
+      if (sql.includes("FROM multipart_uploads WHERE expires_at IS NOT NULL AND expires_at <= ?")) {
+        const expired = rows("multipart_uploads").filter((row) => row.expires_at && String(row.expires_at) <= String(args[0]));
+        return { results: expired.slice(0, Number(args[1])).map(upload) };
+      }
+      return { results: [] };
+    },
+    run: async () => {
+      const insert = /^\s*INSERT INTO (\w+)\s*\(([^)]*)\)\s*VALUES\s*\(([^)]*)\)/.exec(sql);
+      if (insert && insert[1] !== "download_events") {
+        const columns = insert[2].split(",").map((c) => c.trim());
+        const row = values(insert[3], args);
+        seed(insert[1], Object.fromEntries(columns.map((c, i) => [c, row[i]])));
+      }
+      const remove = /^\s*DELETE FROM (\w+) WHERE upload_id = \?/.exec(sql);
+      if (remove) tables.set(remove[1], rows(remove[1]).filter((row) => row.upload_id !== args[0]));
+      if (sql.includes("UPDATE guest_links SET upload_count")) guestLink.upload_count += 1;
+      if (sql.includes("UPDATE multipart_uploads SET tus_offset = ?, tus_parts = ?, tus_tail_size = ?")) {
+        const row = find("multipart_uploads", "upload_id", args[3]);
+        if (row) Object.assign(row, { tus_offset: args[0], tus_parts: args[1], tus_tail_size: args[2] });
+      }
+      return { meta: { changes: 0 } };
+    },
+  });
+
+  const bytesOf = async (value: unknown) =>
+    new Uint8Array(value instanceof ReadableStream ? await new Response(value).arrayBuffer() : (value as ArrayBuffer));
+  const stored = (key: string, bytes: Uint8Array) => ({
+    size: bytes.byteLength,
+    httpEtag: `"etag-${key}"`,
+    writeHttpMetadata: () => {},
+    body: new Blob([bytes]).stream(),
+    arrayBuffer: async () => bytes.slice().buffer,
+  });
+
+  const env = {
+    PS_SHARED_SECRET: SHARED_SECRET,
+    DB: {
+      prepare: (sql: string) => ({ ...statement(sql, []), bind: (...args: unknown[]) => statement(sql, args) }),
+    },
+    BUCKET: {
+      head: async (key: string) => {
+        const bytes = objects.get(key);
+        return bytes ? stored(key, bytes) : null;
+      },
+      get: async (key: string) => {
+        const bytes = objects.get(key);
+        return bytes ? stored(key, bytes) : null;
+      },
+      put: async (key: string, value: unknown) => {
+        objects.set(key, await bytesOf(value));
+      },
+      delete: async (key: string) => {
+        objects.delete(key);
+      },
+      createMultipartUpload: async () => ({ uploadId: `u${++nextUpload}` }),
+      resumeMultipartUpload: (key: string, uploadId: string) => ({
+        uploadPart: async (partNumber: number, value: ArrayBuffer | Uint8Array) => {
+          if (!parts.has(uploadId)) parts.set(uploadId, new Map());
+          parts.get(uploadId)?.set(partNumber, new Uint8Array(value));
+          return { partNumber, etag: `etag-${partNumber}` };
+        },
+        complete: async (list: { partNumber: number }[]) => {
+          const body = Buffer.concat(list.map((p) => parts.get(uploadId)?.get(p.partNumber) ?? new Uint8Array(0)));
+          objects.set(key, new Uint8Array(body));
+          return { size: body.byteLength };
+        },
+        abort: async () => {
+          parts.delete(uploadId);
+          aborted.push(uploadId);
+        },
+      }),
+    },
+  } as unknown as WorkerEnv;
+  return { env, rows, seed, objects, guestLink, aborted };
+}
+
+function apiRequest(method: string, path: string, init: { headers?: Record<string, string>; body?: BodyInit } = {}) {
+  return new Request(`https://share.example${path}`, {
+    method,
+    body: init.body,
+    headers: { Authorization: SHARED_SECRET, ...init.headers },
+    duplex: "half",
+  } as RequestInit);
+}
+
 describe("parseExpirationDays", () => {
   it("returns null for empty or invalid input", () => {
     expect(parseExpirationDays(null)).toBeNull();
@@ -115,6 +388,7 @@ describe("cleanupExpiredEntries", () => {
               }
               return { results: [] };
             },
+            first: async () => null,
             run: async () => {
               if (sql.includes("DELETE FROM download_events")) {
                 deletedEvents.push(String(args[0]));
@@ -137,6 +411,39 @@ describe("cleanupExpiredEntries", () => {
     expect(deletedEntries).toEqual(["exp-1", "exp-2"]);
   });
 
+  it("deletes a deduplicated blob only with its last reference", async () => {
+    const deletedFromBucket: string[] = [];
+    const blob = { object_key: "blobs/sha256/h1", ref_count: 2 };
+
+    const env = {
+      BUCKET: {
+        delete: async (key: string) => {
+          deletedFromBucket.push(key);
+        },
+      },
+      DB: {
+        prepare: (sql: string) => ({
+          bind: () => ({
+            all: async () => ({ results: sql.includes("SELECT id") ? [{ id: "exp-1" }, { id: "exp-2" }] : [] }),
+            first: async () => {
+              if (sql.includes("SELECT sha256 FROM entries")) return { sha256: "h1" };
+              if (sql.includes("UPDATE blobs")) {
+                blob.ref_count -= 1;
+                return { ...blob };
+              }
+              return null;
+            },
+            run: async () => ({ meta: { changes: sql.includes("DELETE FROM blobs") && blob.ref_count <= 0 ? 1 : 0 } }),
+          }),
+        }),
+      },
+    } as unknown as Parameters<typeof cleanupExpiredEntries>[0];
+
+    expect(await cleanupExpiredEntries(env, "2026-02-11T00:00:00.000Z", 100)).toBe(2);
+    expect(blob.ref_count).toBe(0);
+    expect(deletedFromBucket).toEqual(["blobs/sha256/h1"]);
+  });
+
   it("returns 0 when no expired entries exist", async () => {
     const env = {
       BUCKET: {
@@ -206,9 +513,17 @@ describe("clipboard password helpers", () => {
     expect(normalizeClipboardPassword(123)).toBeNull();
   });
 
-  it("hashes and verifies password", async () => {
+  it("verifies legacy sha256 password hashes", async () => {
     const hash = await sha256Hex("my-secret");
     expect(hash).toHaveLength(64);
+    expect(isLegacyClipboardPasswordHash(hash)).toBe(true);
+    expect(await verifyClipboardPassword(hash, "my-secret")).toBe(true);
+    expect(await verifyClipboardPassword(hash, "wrong")).toBe(false);
+  });
+
+  it("verifies salted pbkdf2 password hashes", async () => {
+    const hash = await hashPassword("my-secret", 1_000);
+    expect(isLegacyClipboardPasswordHash(hash)).toBe(false);
     expect(await verifyClipboardPassword(hash, "my-secret")).toBe(true);
     expect(await verifyClipboardPassword(hash, "wrong")).toBe(false);
   });
@@ -218,3 +533,1177 @@ describe("clipboard password helpers", () => {
     expect(clipboardPasswordStorageKey("张三")).toBe("ps_clip_pw_%E5%BC%A0%E4%B8%89");
   });
 });
+
+describe("user roles", () => {
+  it("normalizes known roles only", () => {
+    expect(normalizeUserRole("admin")).toBe("admin");
+    expect(normalizeUserRole("viewer")).toBe("viewer");
+    expect(normalizeUserRole("root")).toBeNull();
+    expect(normalizeUserRole(undefined)).toBeNull();
+  });
+
+  it("orders roles by privilege", () => {
+    expect(roleSatisfies("admin", "uploader")).toBe(true);
+    expect(roleSatisfies("uploader", "uploader")).toBe(true);
+    expect(roleSatisfies("viewer", "uploader")).toBe(false);
+  });
+
+  it("maps api routes to the minimum role", () => {
+    expect(requiredRoleForRoute("GET", "/api/entries")).toBe("viewer");
+    expect(requiredRoleForRoute("POST", "/api/entry")).toBe("uploader");
+    expect(requiredRoleForRoute("DELETE", "/api/entry/abc")).toBe("uploader");
+    expect(requiredRoleForRoute("GET", "/api/guest-links")).toBe("uploader");
+    expect(requiredRoleForRoute("GET", "/api/settings")).toBe("viewer");
+    expect(requiredRoleForRoute("PUT", "/api/settings")).toBe("admin");
+    expect(requiredRoleForRoute("GET", "/api/users")).toBe("admin");
+  });
+});
+
+describe("user credentials", () => {
+  it("validates usernames and reserves the bootstrap admin", () => {
+    expect(sanitizeUsername("  Alice.Dev ")).toBe("alice.dev");
+    expect(sanitizeUsername("admin")).toBeNull();
+    expect(sanitizeUsername("has space")).toBeNull();
+    expect(sanitizeUsername("")).toBeNull();
+    expect(sanitizeUsername(42)).toBeNull();
+  });
+
+  it("parses basic authorization headers", () => {
+    expect(parseBasicAuthorization(`Basic ${btoa("bob:pa:ss")}`)).toEqual({ username: "bob", password: "pa:ss" });
+    expect(parseBasicAuthorization("Basic !!!")).toBeNull();
+    expect(parseBasicAuthorization("raw-secret")).toBeNull();
+    expect(parseBasicAuthorization(null)).toBeNull();
+  });
+
+  it("hashes passwords with a per-hash salt", async () => {
+    const a = await hashPassword("correct horse", 1000);
+    const b = await hashPassword("correct horse", 1000);
+    expect(a).toMatch(/^pbkdf2-sha256\$1000\$/);
+    expect(a).not.toBe(b);
+    expect(await verifyPasswordHash(a, "correct horse")).toBe(true);
+    expect(await verifyPasswordHash(a, "wrong")).toBe(false);
+    expect(await verifyPasswordHash("garbage", "correct horse")).toBe(false);
+  });
+});
+
+describe("session tokens", () => {
+  it("round-trips a signed token until it expires", async () => {
+    const token = await signSessionToken("secret", "sess-1", 2_000);
+    expect(await verifySessionToken("secret", token, 1_000)).toEqual({ sessionId: "sess-1", expiresAtSec: 2_000 });
+    expect(await verifySessionToken("secret", token, 2_000)).toBeNull();
+  });
+
+  it("rejects tampered tokens or a different secret", async () => {
+    const token = await signSessionToken("secret", "sess-1", 2_000);
+    const [id, , sig] = token.split(".");
+    expect(await verifySessionToken("other", token, 1_000)).toBeNull();
+    expect(await verifySessionToken("secret", `${id}.9999.${sig}`, 1_000)).toBeNull();
+    expect(await verifySessionToken("secret", "not-a-token", 1_000)).toBeNull();
+  });
+
+  it("parses cookie headers", () => {
+    const cookies = parseCookies("ps_session=abc.1.x; ps_lang=zh; broken");
+    expect(cookies.get("ps_session")).toBe("abc.1.x");
+    expect(cookies.get("ps_lang")).toBe("zh");
+    expect(cookies.has("broken")).toBe(false);
+    expect(parseCookies(null).size).toBe(0);
+  });
+});
+
+describe("api token scopes", () => {
+  it("keeps only known scopes", () => {
+    expect(normalizeApiTokenScopes(["entries:write", "root", "entries:read"])).toEqual(["entries:read", "entries:write"]);
+    expect(normalizeApiTokenScopes("settings, guest-links:manage")).toEqual(["guest-links:manage", "settings"]);
+    expect(normalizeApiTokenScopes(null)).toEqual([]);
+  });
+
+  it("maps routes to the scope they need", () => {
+    expect(requiredScopeForRoute("POST", "/api/entry")).toBe("entries:write");
+    expect(requiredScopeForRoute("GET", "/api/entry/abc")).toBe("entries:read");
+    expect(requiredScopeForRoute("PUT", "/api/entry/multipart/part/u/1")).toBe("entries:write");
+    expect(requiredScopeForRoute("PATCH", "/api/tus/abc")).toBe("entries:write");
+    expect(requiredScopeForRoute("HEAD", "/api/tus/abc")).toBe("entries:write");
+    expect(requiredScopeForRoute("PUT", "/api/put/build.log")).toBe("entries:write");
+    expect(requiredScopeForRoute("DELETE", "/api/guest-links/abc")).toBe("guest-links:manage");
+    expect(requiredScopeForRoute("PUT", "/api/settings")).toBe("settings");
+    expect(requiredScopeForRoute("POST", "/api/tokens")).toBeNull();
+    expect(requiredScopeForRoute("GET", "/api/users")).toBeNull();
+  });
+
+  it("checks a token scope list against a route", () => {
+    expect(tokenScopesAllow(["entries:write"], "POST", "/api/entry")).toBe(true);
+    expect(tokenScopesAllow(["entries:write"], "GET", "/api/entries")).toBe(false);
+    expect(tokenScopesAllow(["entries:read"], "GET", "/api/me")).toBe(true);
+    expect(tokenScopesAllow(["settings"], "GET", "/api/sessions")).toBe(false);
+  });
+});
+
+describe("two-factor helpers", () => {
+  const rfcSecret = new TextEncoder().encode("12345678901234567890");
+
+  it("round-trips base32", () => {
+    expect(base32Encode(new TextEncoder().encode("foobar"))).toBe("MZXW6YTBOI");
+    expect(new TextDecoder().decode(base32Decode("mzxw 6ytb oi======")!)).toBe("foobar");
+    expect(base32Decode("not base32!")).toBeNull();
+  });
+
+  it("matches the RFC 6238 SHA-1 test vectors", async () => {
+    expect(await totpCode(rfcSecret, Math.floor(59 / 30), 8)).toBe("94287082");
+    expect(await totpCode(rfcSecret, Math.floor(1111111109 / 30), 8)).toBe("07081804");
+    expect(await totpCode(rfcSecret, Math.floor(2000000000 / 30), 8)).toBe("69279037");
+  });
+
+  it("accepts codes within one step of clock drift", async () => {
+    const secret = base32Encode(rfcSecret);
+    const now = 1111111109_000;
+    const counter = Math.floor(now / 30_000);
+    const previous = await totpCode(rfcSecret, counter - 1);
+    expect(await matchTotpCounter(secret, previous, now)).toBe(counter - 1);
+    expect(await matchTotpCounter(secret, await totpCode(rfcSecret, counter - 2), now)).toBeNull();
+    expect(await matchTotpCounter(secret, "12ab56", now)).toBeNull();
+  });
+
+  it("builds QR codes sized for their payload", () => {
+    expect(qrCodeMatrix("hello")).toHaveLength(21);
+    const uri = "otpauth://totp/PicoShare:admin?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=PicoShare";
+    const size = qrCodeMatrix(uri).length;
+    expect(size).toBeGreaterThan(21);
+    expect((size - 17) % 4).toBe(0);
+    expect(qrCodeSvg("hello")).toContain("<svg");
+  });
+});
+
+describe("lockoutDurationSeconds", () => {
+  it("does not lock before the threshold", () => {
+    expect(lockoutDurationSeconds(0, 5)).toBe(0);
+    expect(lockoutDurationSeconds(4, 5)).toBe(0);
+  });
+
+  it("doubles with each further failure up to a cap", () => {
+    expect(lockoutDurationSeconds(5, 5)).toBe(30);
+    expect(lockoutDurationSeconds(6, 5)).toBe(60);
+    expect(lockoutDurationSeconds(8, 5)).toBe(240);
+    expect(lockoutDurationSeconds(60, 5)).toBe(24 * 3600);
+  });
+});
+
+describe("normalizeEntryPassword", () => {
+  it("trims and bounds passwords", () => {
+    expect(normalizeEntryPassword("  open sesame ")).toBe("open sesame");
+    expect(normalizeEntryPassword("   ")).toBeNull();
+    expect(normalizeEntryPassword("a".repeat(129))).toBeNull();
+    expect(normalizeEntryPassword(null)).toBeNull();
+  });
+});
+
+describe("signed download urls", () => {
+  it("verifies a signed query until it expires", async () => {
+    const query = new URLSearchParams(await signDownloadQuery("secret", "abc", { expiresAtSec: 2_000 }));
+    expect(await verifyDownloadQuery("secret", "abc", query, null, 1_000)).toEqual({ nonce: null });
+    expect(await verifyDownloadQuery("secret", "abc", query, null, 2_000)).toBeNull();
+    expect(await verifyDownloadQuery("secret", "other", query, null, 1_000)).toBeNull();
+    expect(await verifyDownloadQuery("other", "abc", query, null, 1_000)).toBeNull();
+  });
+
+  it("rejects tampered parameters and enforces a bound ip", async () => {
+    const query = new URLSearchParams(
+      await signDownloadQuery("secret", "abc", { expiresAtSec: 2_000, nonce: "n1", ip: "203.0.113.7" }),
+    );
+    expect(await verifyDownloadQuery("secret", "abc", query, "203.0.113.7", 1_000)).toEqual({ nonce: "n1" });
+    expect(await verifyDownloadQuery("secret", "abc", query, "198.51.100.1", 1_000)).toBeNull();
+    const tampered = new URLSearchParams(query);
+    tampered.set("exp", "9999");
+    expect(await verifyDownloadQuery("secret", "abc", tampered, "203.0.113.7", 1_000)).toBeNull();
+    const withoutNonce = new URLSearchParams(query);
+    withoutNonce.delete("n");
+    expect(await verifyDownloadQuery("secret", "abc", withoutNonce, "203.0.113.7", 1_000)).toBeNull();
+  });
+});
+
+describe("parseRangeHeader", () => {
+  it("ignores missing or malformed headers", () => {
+    expect(parseRangeHeader(null, 100)).toBeNull();
+    expect(parseRangeHeader("items=0-5", 100)).toBeNull();
+    expect(parseRangeHeader("bytes=5-2", 100)).toBeNull();
+    expect(parseRangeHeader("bytes=-", 100)).toBeNull();
+  });
+
+  it("resolves open-ended, suffix and clamped ranges", () => {
+    expect(parseRangeHeader("bytes=0-9", 100)).toEqual([{ start: 0, end: 9 }]);
+    expect(parseRangeHeader("bytes=90-", 100)).toEqual([{ start: 90, end: 99 }]);
+    expect(parseRangeHeader("bytes=-10", 100)).toEqual([{ start: 90, end: 99 }]);
+    expect(parseRangeHeader("bytes=-500", 100)).toEqual([{ start: 0, end: 99 }]);
+    expect(parseRangeHeader("bytes=50-500", 100)).toEqual([{ start: 50, end: 99 }]);
+  });
+
+  it("sorts and merges multiple ranges", () => {
+    expect(parseRangeHeader("bytes=50-59, 0-9", 100)).toEqual([
+      { start: 0, end: 9 },
+      { start: 50, end: 59 },
+    ]);
+    expect(parseRangeHeader("bytes=0-9,5-20,21-30", 100)).toEqual([{ start: 0, end: 30 }]);
+  });
+
+  it("reports unsatisfiable ranges", () => {
+    expect(parseRangeHeader("bytes=100-", 100)).toBe("unsatisfiable");
+    expect(parseRangeHeader("bytes=0-", 0)).toBe("unsatisfiable");
+    expect(parseRangeHeader("bytes=200-300, 150-", 100)).toBe("unsatisfiable");
+  });
+});
+
+describe("conditional requests", () => {
+  const etag = '"abc123"';
+  const lastModified = Date.UTC(2025, 0, 2, 3, 4, 5, 600);
+
+  it("matches If-None-Match with weak comparison", () => {
+    expect(isNotModified(new Headers({ "If-None-Match": '"abc123"' }), etag, lastModified)).toBe(true);
+    expect(isNotModified(new Headers({ "If-None-Match": 'W/"abc123", "zzz"' }), etag, lastModified)).toBe(true);
+    expect(isNotModified(new Headers({ "If-None-Match": "*" }), etag, lastModified)).toBe(true);
+    expect(isNotModified(new Headers({ "If-None-Match": '"other"' }), etag, lastModified)).toBe(false);
+  });
+
+  it("prefers If-None-Match over If-Modified-Since", () => {
+    const headers = new Headers({
+      "If-None-Match": '"other"',
+      "If-Modified-Since": new Date(lastModified + 60_000).toUTCString(),
+    });
+    expect(isNotModified(headers, etag, lastModified)).toBe(false);
+  });
+
+  it("compares If-Modified-Since at second precision", () => {
+    const at = (ms: number) => new Headers({ "If-Modified-Since": new Date(ms).toUTCString() });
+    expect(isNotModified(at(lastModified), etag, lastModified)).toBe(true);
+    expect(isNotModified(at(lastModified - 1_000), etag, lastModified)).toBe(false);
+    expect(isNotModified(new Headers({ "If-Modified-Since": "garbage" }), etag, lastModified)).toBe(false);
+    expect(isNotModified(at(lastModified), etag, null)).toBe(false);
+  });
+
+  it("only honours a Range while If-Range still matches", () => {
+    expect(ifRangeAllowsRange(null, etag, lastModified)).toBe(true);
+    expect(ifRangeAllowsRange('"abc123"', etag, lastModified)).toBe(true);
+    expect(ifRangeAllowsRange('W/"abc123"', etag, lastModified)).toBe(false);
+    expect(ifRangeAllowsRange('"other"', etag, lastModified)).toBe(false);
+    expect(ifRangeAllowsRange(new Date(lastModified).toUTCString(), etag, lastModified)).toBe(true);
+    expect(ifRangeAllowsRange(new Date(lastModified - 5_000).toUTCString(), etag, lastModified)).toBe(false);
+  });
+});
+
+describe("download limits", () => {
+  // Mimics the conditional UPDATEs on entries.served_downloads for a single limited entry.
+  function limitedEntryEnv(maxDownloads: number) {
+    const entry = { served_downloads: 0 };
+    const env = {
+      DB: {
+        prepare: (sql: string) => ({
+          bind: () => ({
+            first: async () => {
+              if (!sql.includes("served_downloads + 1") || entry.served_downloads >= maxDownloads) return null;
+              entry.served_downloads += 1;
+              return { remaining: maxDownloads - entry.served_downloads };
+            },
+            run: async () => {
+              if (sql.includes("served_downloads - 1") && entry.served_downloads > 0) entry.served_downloads -= 1;
+              return {};
+            },
+          }),
+        }),
+      },
+    } as unknown as Parameters<typeof claimEntryDownload>[0];
+    return { env, entry };
+  }
+
+  it("parses max download counts", () => {
+    expect(parseMaxDownloads("1")).toBe(1);
+    expect(parseMaxDownloads(25)).toBe(25);
+    expect(parseMaxDownloads(5_000_000)).toBe(1_000_000);
+    expect(parseMaxDownloads("")).toBeNull();
+    expect(parseMaxDownloads(null)).toBeNull();
+    expect(parseMaxDownloads("0")).toBeNull();
+    expect(parseMaxDownloads("-3")).toBeNull();
+    expect(parseMaxDownloads("2.5")).toBeNull();
+    expect(parseMaxDownloads("abc")).toBeNull();
+  });
+
+  it("recognises link preview bots", () => {
+    expect(isLinkPreviewBot("Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)")).toBe(true);
+    expect(isLinkPreviewBot("Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)")).toBe(true);
+    expect(isLinkPreviewBot("TelegramBot (like TwitterBot)")).toBe(true);
+    expect(isLinkPreviewBot("WhatsApp/2.23.20.0")).toBe(true);
+    expect(isLinkPreviewBot("Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 Chrome/120.0 Safari/537.36")).toBe(false);
+    expect(isLinkPreviewBot("curl/8.4.0")).toBe(false);
+    expect(isLinkPreviewBot(null)).toBe(false);
+  });
+
+  it("hands out downloads until the limit is exhausted", async () => {
+    const { env, entry } = limitedEntryEnv(2);
+    expect(await claimEntryDownload(env, "e1")).toEqual({ remaining: 1 });
+    expect(await claimEntryDownload(env, "e1")).toEqual({ remaining: 0 });
+    expect(await claimEntryDownload(env, "e1")).toBeNull();
+    expect(entry.served_downloads).toBe(2);
+  });
+
+  it("never advertises byte ranges for a limited entry", async () => {
+    const { env, seed, objects } = uploadTestEnv();
+    for (const [id, maxDownloads] of [["limited", 2], ["open", null]] as const) {
+      seed("entries", {
+        id,
+        filename: "hello.txt",
+        content_type: "text/plain",
+        size: 5,
+        upload_time: "2024-01-01 00:00:00",
+        expiration_time: null,
+        max_downloads: maxDownloads,
+        served_downloads: 0,
+        password_hash: null,
+        object_key: id,
+      });
+      objects.set(id, new TextEncoder().encode("hello"));
+    }
+    const get = (path: string, method = "GET") =>
+      worker.fetch(new Request(`https://share.example${path}`, { method, headers: { Range: "bytes=0-1" } }), env, workerCtx);
+
+    const limited = await get("/-limited");
+    expect(limited.status).toBe(200);
+    expect(limited.headers.get("Accept-Ranges")).toBe("none");
+    expect(await limited.text()).toBe("hello");
+    expect((await get("/-limited", "HEAD")).headers.get("Accept-Ranges")).toBe("none");
+
+    const open = await get("/-open");
+    expect(open.status).toBe(206);
+    expect(open.headers.get("Accept-Ranges")).toBe("bytes");
+    await open.body?.cancel();
+  });
+
+  it("returns a released download to the pool", async () => {
+    const { env, entry } = limitedEntryEnv(1);
+    expect(await claimEntryDownload(env, "e1")).toEqual({ remaining: 0 });
+    await releaseEntryDownload(env, "e1");
+    expect(entry.served_downloads).toBe(0);
+    expect(await claimEntryDownload(env, "e1")).toEqual({ remaining: 0 });
+    await releaseEntryDownload(env, "e1");
+    await releaseEntryDownload(env, "e1");
+    expect(entry.served_downloads).toBe(0);
+  });
+});
+
+describe("contentDisposition", () => {
+  it("keeps plain ascii filenames simple", () => {
+    expect(contentDisposition("inline", "report.pdf")).toBe('inline; filename="report.pdf"');
+    expect(contentDisposition("attachment", "a b.txt")).toBe('attachment; filename="a b.txt"');
+  });
+
+  it("adds an RFC 5987 filename for non-ascii names", () => {
+    expect(contentDisposition("attachment", "报告.pdf")).toBe(
+      "attachment; filename=\"__.pdf\"; filename*=UTF-8''%E6%8A%A5%E5%91%8A.pdf",
+    );
+  });
+
+  it("neutralises quotes, backslashes and control characters", () => {
+    expect(contentDisposition("inline", 'say "hi"\\.txt')).toBe(
+      "inline; filename=\"say _hi__.txt\"; filename*=UTF-8''say%20%22hi%22%5C.txt",
+    );
+    expect(contentDisposition("inline", "evil\r\nSet-Cookie: x")).toBe('inline; filename="evilSet-Cookie: x"');
+    expect(contentDisposition("attachment", "it's (1).txt")).toBe('attachment; filename="it\'s (1).txt"');
+    expect(contentDisposition("inline", "\n")).toBe("inline");
+  });
+
+  it("sanitizes ?as= overrides", () => {
+    expect(sanitizeDownloadFilename("../../etc/passwd")).toBe("passwd");
+    expect(sanitizeDownloadFilename("dir\\name.txt")).toBe("name.txt");
+    expect(sanitizeDownloadFilename("..")).toBeNull();
+    expect(sanitizeDownloadFilename("")).toBeNull();
+    expect(sanitizeDownloadFilename(null)).toBeNull();
+  });
+});
+
+describe("landing page helpers", () => {
+  it("formats byte sizes", () => {
+    expect(formatByteSize(0)).toBe("0 B");
+    expect(formatByteSize(512)).toBe("512 B");
+    expect(formatByteSize(1536)).toBe("1.50 kB");
+    expect(formatByteSize(5 * 1024 * 1024 * 1024)).toBe("5.00 GB");
+  });
+
+  it("only previews types that render safely inline", () => {
+    expect(landingPreviewKind("image/png")).toBe("image");
+    expect(landingPreviewKind("video/mp4; codecs=avc1")).toBe("video");
+    expect(landingPreviewKind("audio/mpeg")).toBe("audio");
+    expect(landingPreviewKind("application/pdf")).toBe("pdf");
+    expect(landingPreviewKind("image/svg+xml")).toBeNull();
+    expect(landingPreviewKind("text/html")).toBeNull();
+    expect(landingPreviewKind(null)).toBeNull();
+  });
+});
+
+describe("zip archives", () => {
+  it("computes crc32 incrementally", () => {
+    const data = new TextEncoder().encode("123456789");
+    expect(crc32(data)).toBe(0xcbf43926);
+    expect(crc32(data.subarray(4), crc32(data.subarray(0, 4)))).toBe(0xcbf43926);
+  });
+
+  it("flattens and de-duplicates member names", () => {
+    expect(uniqueZipNames(["a.txt", "A.txt", "a.txt", "../x/y", "..", "notes"])).toEqual([
+      "a.txt",
+      "A (2).txt",
+      "a (3).txt",
+      ".._x_y",
+      "file",
+      "notes",
+    ]);
+  });
+
+  it("streams stored members with a central directory", async () => {
+    const data = new TextEncoder().encode("hello");
+    const stream = zipArchiveStream([
+      { name: "hello.txt", size: data.length, modifiedMs: Date.UTC(2024, 0, 2, 3, 4, 6), open: async () => new Response(data).body },
+    ]);
+    const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(new TextDecoder().decode(bytes.subarray(30, 39))).toBe("hello.txt");
+    expect(new TextDecoder().decode(bytes.subarray(39, 44))).toBe("hello");
+    expect(view.getUint32(44, true)).toBe(0x08074b50);
+    expect(view.getUint32(48, true)).toBe(crc32(data));
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(1);
+    const directoryOffset = view.getUint32(end + 16, true);
+    expect(directoryOffset).toBe(60);
+    expect(view.getUint32(directoryOffset, true)).toBe(0x02014b50);
+    expect(view.getUint32(directoryOffset + 24, true)).toBe(5);
+  });
+
+  it("fails the stream when a member is shorter than declared", async () => {
+    const stream = zipArchiveStream([
+      { name: "short.bin", size: 10, modifiedMs: null, open: async () => new Response("abc").body },
+    ]);
+    await expect(new Response(stream).arrayBuffer()).rejects.toThrow();
+  });
+});
+
+describe("sanitizeEntryAlias", () => {
+  it("normalizes aliases like clipboard slugs", () => {
+    expect(sanitizeEntryAlias("Release Notes v2")).toBe("release-notes-v2");
+    expect(sanitizeEntryAlias("发布说明")).toBe("发布说明");
+  });
+
+  it("rejects unusable aliases", () => {
+    expect(sanitizeEntryAlias("")).toBeNull();
+    expect(sanitizeEntryAlias("-leading")).toBeNull();
+    expect(sanitizeEntryAlias("a/b")).toBeNull();
+    expect(sanitizeEntryAlias("x".repeat(65))).toBeNull();
+  });
+});
+
+describe("generateID", () => {
+  it("uses the unambiguous alphabet at the requested length", () => {
+    expect(generateID()).toMatch(/^[a-km-zA-HJ-NP-Z2-9]{10}$/);
+    expect(generateID(32)).toMatch(/^[a-km-zA-HJ-NP-Z2-9]{32}$/);
+  });
+
+  it("does not repeat ids", () => {
+    const ids = new Set(Array.from({ length: 1000 }, () => generateID()));
+    expect(ids.size).toBe(1000);
+  });
+
+  it("accepts id lengths within bounds", () => {
+    expect(parseIdLength("16")).toBe(16);
+    expect(parseIdLength(8)).toBe(8);
+    expect(parseIdLength(7)).toBeNull();
+    expect(parseIdLength(33)).toBeNull();
+    expect(parseIdLength("12.5")).toBeNull();
+    expect(parseIdLength(null)).toBeNull();
+  });
+});
+
+describe("storeBlob", () => {
+  function blobEnv(options: { live?: string; claimedBy?: string; failPut?: boolean } = {}) {
+    const calls: string[] = [];
+    const env = {
+      BUCKET: {
+        put: async (key: string) => {
+          calls.push(`put ${key}`);
+          if (options.failPut) throw new Error("put failed");
+        },
+        delete: async (key: string) => {
+          calls.push(`delete ${key}`);
+        },
+      },
+      DB: {
+        prepare: (sql: string) => ({
+          bind: (...args: unknown[]) => ({
+            first: async () => {
+              if (sql.startsWith("UPDATE blobs")) {
+                calls.push("reference");
+                return options.live ? { object_key: options.live } : null;
+              }
+              calls.push("claim");
+              return options.claimedBy
+                ? { object_key: options.claimedBy, ref_count: 2 }
+                : { object_key: args[1], ref_count: 1 };
+            },
+          }),
+        }),
+      },
+    } as unknown as Parameters<typeof storeBlob>[0];
+    return { env, calls };
+  }
+
+  it("only adds a reference when the content is already stored", async () => {
+    const { env, calls } = blobEnv({ live: "old-entry" });
+    expect(await storeBlob(env, "h1", "e1", new Uint8Array([1]), "text/plain")).toEqual({ hash: "h1", objectKey: "old-entry" });
+    expect(calls).toEqual(["reference"]);
+  });
+
+  it("writes new content before claiming the blob", async () => {
+    const { env, calls } = blobEnv();
+    expect(await storeBlob(env, "h1", "e1", new Uint8Array([1]), "text/plain")).toEqual({ hash: "h1", objectKey: "e1" });
+    expect(calls).toEqual(["reference", "put e1", "claim"]);
+  });
+
+  it("claims nothing when the write fails", async () => {
+    const { env, calls } = blobEnv({ failPut: true });
+    await expect(storeBlob(env, "h1", "e1", new Uint8Array([1]), "text/plain")).rejects.toThrow("put failed");
+    expect(calls).toEqual(["reference", "put e1"]);
+  });
+
+  it("drops its own copy when a concurrent upload claimed the hash first", async () => {
+    const { env, calls } = blobEnv({ claimedBy: "e0" });
+    expect(await storeBlob(env, "h1", "e1", new Uint8Array([1]), "text/plain")).toEqual({ hash: "h1", objectKey: "e0" });
+    expect(calls).toEqual(["reference", "put e1", "claim", "delete e1"]);
+  });
+});
+
+describe("integrity digests", () => {
+  const hex = "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824";
+  const b64 = "LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=";
+
+  it("formats RFC 9530 digest fields", async () => {
+    expect(await sha256Hex("hello")).toBe(hex);
+    expect(sha256DigestField(hex)).toBe(`sha-256=:${b64}:`);
+  });
+
+  it("reads expected digests from headers and form fields", () => {
+    expect(expectedSha256(new Headers(), null)).toBeNull();
+    expect(expectedSha256(new Headers(), hex.toUpperCase())).toBe(hex);
+    expect(expectedSha256(new Headers({ "Content-Digest": `sha-512=:AAAA:, sha-256=:${b64}:` }), null)).toBe(hex);
+    expect(expectedSha256(new Headers({ "Repr-Digest": `sha-256=:${b64}:` }), null)).toBe(hex);
+    expect(expectedSha256(new Headers({ Digest: `SHA-256=${b64}` }), hex)).toBe(hex);
+    expect(expectedSha256(new Headers({ "Content-Digest": "sha-512=:AAAA:" }), null)).toBeNull();
+  });
+
+  it("flags malformed or conflicting digests", () => {
+    expect(expectedSha256(new Headers(), "abc")).toBe("invalid");
+    expect(expectedSha256(new Headers({ "Content-Digest": "sha-256=:AAAA:" }), null)).toBe("invalid");
+    expect(expectedSha256(new Headers({ "Content-Digest": `sha-256=:${b64}:` }), "0".repeat(64))).toBe("invalid");
+  });
+});
+
+describe("parseTusMetadata", () => {
+  it("decodes base64 values and keeps keys without a value", () => {
+    const meta = parseTusMetadata("filename d29ybGRfZG9taW5hdGlvbl9wbGFuLnBkZg==,is_confidential, note 5L2g5aW9");
+    expect(meta?.get("filename")).toBe("world_domination_plan.pdf");
+    expect(meta?.get("is_confidential")).toBe("");
+    expect(meta?.get("note")).toBe("你好");
+  });
+
+  it("treats a missing header as empty metadata", () => {
+    expect(parseTusMetadata(null)?.size).toBe(0);
+    expect(parseTusMetadata("  ")?.size).toBe(0);
+  });
+
+  it("rejects malformed pairs", () => {
+    expect(parseTusMetadata("filename not*base64")).toBeNull();
+    expect(parseTusMetadata("a YQ==,a Yg==")).toBeNull();
+    expect(parseTusMetadata("a YQ== extra")).toBeNull();
+    expect(parseTusMetadata("a YQ==,,b Yg==")).toBeNull();
+  });
+});
+
+describe("sanitizeUploadFingerprint", () => {
+  it("keeps short printable ASCII fingerprints", () => {
+    expect(sanitizeUploadFingerprint(" " + "a".repeat(64) + " ")).toBe("a".repeat(64));
+    expect(sanitizeUploadFingerprint("v0:1024:1700000000000")).toBe("v0:1024:1700000000000");
+  });
+
+  it("rejects anything else", () => {
+    expect(sanitizeUploadFingerprint(undefined)).toBeNull();
+    expect(sanitizeUploadFingerprint("")).toBeNull();
+    expect(sanitizeUploadFingerprint("has space")).toBeNull();
+    expect(sanitizeUploadFingerprint("x".repeat(129))).toBeNull();
+  });
+});
+
+describe("sanitizeRelativePath", () => {
+  it("normalises folder paths", () => {
+    expect(sanitizeRelativePath("photos/2024/a.jpg")).toBe("photos/2024/a.jpg");
+    expect(sanitizeRelativePath("photos\\2024\\a.jpg")).toBe("photos/2024/a.jpg");
+    expect(sanitizeRelativePath("/photos//./a.jpg")).toBe("photos/a.jpg");
+  });
+
+  it("rejects empty, traversing or oversized paths", () => {
+    expect(sanitizeRelativePath(undefined)).toBeNull();
+    expect(sanitizeRelativePath("")).toBeNull();
+    expect(sanitizeRelativePath("./")).toBeNull();
+    expect(sanitizeRelativePath("photos/../secret.txt")).toBeNull();
+    expect(sanitizeRelativePath("photos/a\nb.jpg")).toBeNull();
+    expect(sanitizeRelativePath("a/".repeat(600))).toBeNull();
+  });
+});
+
+describe("guest multipart uploads", () => {
+  const MB = 1024 * 1024;
+
+  function seedUpload(seed: (table: string, row: Record<string, unknown>) => void, upload: Record<string, unknown> = {}) {
+    seed("multipart_uploads", {
+      upload_id: "u-seed",
+      entry_id: "e-seed",
+      filename: "big.bin",
+      content_type: "application/octet-stream",
+      size: 6,
+      expiration_time: null,
+      note: null,
+      chunk_size: 4,
+      guest_link_id: "g1",
+      ...upload,
+    });
+  }
+
+  const pending = (rows: (table: string) => Record<string, unknown>[], uploadId: string) =>
+    rows("multipart_uploads").find((row) => row.upload_id === uploadId);
+
+  // Browsers always declare the length of a part body; Node's Request doesn't, so it is set here.
+  const call = (env: WorkerEnv, method: string, path: string, body?: string) =>
+    worker.fetch(
+      new Request(`https://share.example${path}`, {
+        method,
+        body,
+        headers: body === undefined ? {} : { "Content-Length": String(Buffer.byteLength(body)) },
+      }),
+      env,
+      workerCtx,
+    );
+  const init = (env: WorkerEnv, size: number) =>
+    call(env, "POST", "/guest/g1/multipart/init", JSON.stringify({ filename: "big.bin", size }));
+
+  it("starts an upload for files within the link's limits", async () => {
+    const { env, rows } = uploadTestEnv({ guestLink: { max_file_bytes: 300 * MB, max_file_uploads: 2 } });
+    const res = await init(env, 200 * MB);
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as { uploadId: string; chunkSize: number };
+    expect(pending(rows, data.uploadId)).toMatchObject({ size: 200 * MB, guest_link_id: "g1", filename: "big.bin" });
+  });
+
+  it("refuses files over max_file_bytes at init", async () => {
+    const { env, rows } = uploadTestEnv({ guestLink: { max_file_bytes: 150 * MB } });
+    expect((await init(env, 200 * MB)).status).toBe(413);
+    expect(rows("multipart_uploads")).toHaveLength(0);
+  });
+
+  it("counts pending uploads against max_file_uploads", async () => {
+    const { env, rows } = uploadTestEnv({ guestLink: { max_file_uploads: 2, upload_count: 1 } });
+    expect((await init(env, 200 * MB)).status).toBe(200);
+    expect((await init(env, 200 * MB)).status).toBe(429);
+    expect(rows("multipart_uploads")).toHaveLength(1);
+  });
+
+  it("refuses to start uploads on an expired link", async () => {
+    const { env, rows } = uploadTestEnv({ guestLink: { url_expires: "2020-01-01T00:00:00.000Z" } });
+    expect((await init(env, 200 * MB)).status).toBe(410);
+    expect(rows("multipart_uploads")).toHaveLength(0);
+  });
+
+  it("leaves small files to the regular form upload", async () => {
+    const { env } = uploadTestEnv();
+    expect((await init(env, 10 * MB)).status).toBe(400);
+  });
+
+  it("validates part numbers and part sizes", async () => {
+    const { env, seed } = uploadTestEnv();
+    seedUpload(seed);
+    expect((await call(env, "PUT", "/guest/g1/multipart/part/u-seed/0", "abcd")).status).toBe(400);
+    expect((await call(env, "PUT", "/guest/g1/multipart/part/u-seed/3", "abcd")).status).toBe(400);
+    expect((await call(env, "PUT", "/guest/g1/multipart/part/u-seed/x", "abcd")).status).toBe(400);
+    expect((await call(env, "PUT", "/guest/g1/multipart/part/u-seed/1", "abcde")).status).toBe(413);
+    expect((await call(env, "PUT", "/guest/g1/multipart/part/u-seed/1", "abcd")).status).toBe(200);
+    expect((await call(env, "PUT", "/guest/g1/multipart/part/u-other/1", "abcd")).status).toBe(404);
+  });
+
+  it("checks the declared part length before reading the body", async () => {
+    const { env, seed } = uploadTestEnv();
+    seedUpload(seed);
+    const put = (headers: Record<string, string>) =>
+      worker.fetch(
+        new Request("https://share.example/guest/g1/multipart/part/u-seed/1", {
+          method: "PUT",
+          body: new Blob(["abcd"]).stream(),
+          headers,
+          duplex: "half",
+        } as RequestInit),
+        env,
+        workerCtx,
+      );
+    expect((await put({})).status).toBe(411);
+    expect((await put({ "Content-Length": "5" })).status).toBe(413);
+  });
+
+  it("only serves uploads that belong to the link", async () => {
+    const { env, rows, seed } = uploadTestEnv();
+    seedUpload(seed, { guest_link_id: "g2" });
+    expect((await call(env, "PUT", "/guest/g1/multipart/part/u-seed/1", "abcd")).status).toBe(404);
+    expect((await call(env, "POST", "/guest/g1/multipart/abort", JSON.stringify({ uploadId: "u-seed" }))).status).toBe(404);
+    expect(pending(rows, "u-seed")).toBeDefined();
+  });
+
+  it("lets an upload that already started finish on an expired, exhausted link", async () => {
+    const { env, rows, seed, guestLink } = uploadTestEnv({ guestLink: { max_file_uploads: 1, upload_count: 1 } });
+    seedUpload(seed);
+    expect((await call(env, "PUT", "/guest/g1/multipart/part/u-seed/1", "abcd")).status).toBe(200);
+    expect((await call(env, "PUT", "/guest/g1/multipart/part/u-seed/2", "ef")).status).toBe(200);
+    guestLink.url_expires = "2020-01-01T00:00:00.000Z";
+
+    const res = await call(env, "POST", "/guest/g1/multipart/complete", JSON.stringify({ uploadId: "u-seed" }));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ id: "e-seed", url: "https://share.example/-e-seed" });
+    expect(rows("entries")).toHaveLength(1);
+    expect(guestLink.upload_count).toBe(2);
+    expect(pending(rows, "u-seed")).toBeUndefined();
+  });
+
+  it("rejects a completed upload whose size differs from the declared one", async () => {
+    const { env, rows, seed } = uploadTestEnv();
+    seedUpload(seed);
+    await call(env, "PUT", "/guest/g1/multipart/part/u-seed/1", "abcd");
+    const res = await call(env, "POST", "/guest/g1/multipart/complete", JSON.stringify({ uploadId: "u-seed" }));
+    expect(res.status).toBe(400);
+    expect(rows("entries")).toHaveLength(0);
+  });
+
+  it("aborts uploads on an expired, exhausted link", async () => {
+    const { env, rows, seed, aborted } = uploadTestEnv({
+      guestLink: { url_expires: "2020-01-01T00:00:00.000Z", max_file_uploads: 1, upload_count: 1 },
+    });
+    seedUpload(seed);
+    const res = await call(env, "POST", "/guest/g1/multipart/abort", JSON.stringify({ uploadId: "u-seed" }));
+    expect(res.status).toBe(200);
+    expect(aborted).toEqual(["u-seed"]);
+    expect(pending(rows, "u-seed")).toBeUndefined();
+  });
+});
+
+describe("browser multipart uploads on /api/entry/multipart", () => {
+  // A signed-in uploader; the shared secret stays the admin.
+  async function signInUploader(seed: (table: string, row: Record<string, unknown>) => void) {
+    seed("users", { id: "user-1", username: "alice", role: "uploader", created_time: null });
+    seed("sessions", { id: "sess-1", user_id: "user-1", username: "alice", expires_at: "2999-01-01T00:00:00.000Z", last_seen_at: null });
+    const token = await signSessionToken(SHARED_SECRET, "sess-1", Math.floor(Date.now() / 1000) + 3600);
+    return { Authorization: `Bearer ${token}` };
+  }
+
+  function seedUploads(seed: (table: string, row: Record<string, unknown>) => void) {
+    const base = { filename: "big.bin", content_type: "application/octet-stream", size: 6, chunk_size: 4, note: "started" };
+    seed("multipart_uploads", { ...base, upload_id: "u-mine", entry_id: "e-mine", created_by: "user-1" });
+    seed("multipart_uploads", { ...base, upload_id: "u-theirs", entry_id: "e-theirs", created_by: "user-2" });
+    seed("multipart_uploads", { ...base, upload_id: "u-tus", entry_id: "e-tus", created_by: "user-1", tus_offset: 0 });
+  }
+
+  const call = (env: WorkerEnv, method: string, path: string, headers: Record<string, string> = {}, body?: string) =>
+    worker.fetch(apiRequest(method, path, { headers, body }), env, workerCtx);
+  const complete = (env: WorkerEnv, body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+    call(env, "POST", "/api/entry/multipart/complete", { "Content-Type": "application/json", ...headers }, JSON.stringify(body));
+
+  it("lists the parts received so far for the caller's own upload", async () => {
+    const { env, seed } = uploadTestEnv();
+    seedUploads(seed);
+    const auth = await signInUploader(seed);
+    expect((await call(env, "PUT", "/api/entry/multipart/part/u-mine/2", auth, "ef")).status).toBe(200);
+
+    const res = await call(env, "GET", "/api/entry/multipart/parts/u-mine", auth);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      uploadId: "u-mine",
+      id: "e-mine",
+      size: 6,
+      chunkSize: 4,
+      parts: [{ partNumber: 2, etag: "etag-2" }],
+    });
+  });
+
+  it("hides other users' uploads and tus uploads from the parts listing", async () => {
+    const { env, seed } = uploadTestEnv();
+    seedUploads(seed);
+    const auth = await signInUploader(seed);
+    expect((await call(env, "GET", "/api/entry/multipart/parts/u-theirs", auth)).status).toBe(404);
+    expect((await call(env, "GET", "/api/entry/multipart/parts/u-tus", auth)).status).toBe(404);
+    expect((await call(env, "GET", "/api/entry/multipart/parts/u-missing", auth)).status).toBe(404);
+    expect((await call(env, "GET", "/api/entry/multipart/parts/u-theirs")).status).toBe(200);
+  });
+
+  it("lists only the caller's own pending uploads unless they are an admin", async () => {
+    const { env, seed } = uploadTestEnv();
+    seedUploads(seed);
+    const auth = await signInUploader(seed);
+    const ids = async (headers?: Record<string, string>) =>
+      ((await (await call(env, "GET", "/api/entry/multipart/uploads", headers)).json()) as { upload_id: string }[])
+        .map((row) => row.upload_id)
+        .sort();
+    expect(await ids(auth)).toEqual(["u-mine", "u-tus"]);
+    expect(await ids()).toEqual(["u-mine", "u-theirs", "u-tus"]);
+  });
+
+  it("keeps clients away from uploads a request is streaming in, except to abort them", async () => {
+    const { env, rows, seed, aborted } = uploadTestEnv();
+    seed("multipart_uploads", {
+      upload_id: "u-stream",
+      entry_id: "e-stream",
+      filename: "log.txt",
+      content_type: "text/plain",
+      size: 0,
+      chunk_size: 4,
+      created_by: "user-1",
+      server_streamed: 1,
+    });
+    const auth = await signInUploader(seed);
+    const listed = (await (await call(env, "GET", "/api/entry/multipart/uploads", auth)).json()) as Record<string, unknown>[];
+    expect(listed).toMatchObject([{ upload_id: "u-stream", server_streamed: 1 }]);
+    expect((await call(env, "GET", "/api/entry/multipart/parts/u-stream", auth)).status).toBe(404);
+    expect((await call(env, "PUT", "/api/entry/multipart/part/u-stream/1", auth, "abcd")).status).toBe(404);
+    expect((await complete(env, { uploadId: "u-stream" }, auth)).status).toBe(404);
+
+    const abort = await call(env, "POST", "/api/entry/multipart/abort", auth, JSON.stringify({ uploadId: "u-stream" }));
+    expect(abort.status).toBe(200);
+    expect(aborted).toEqual(["u-stream"]);
+    expect(rows("multipart_uploads")).toHaveLength(0);
+  });
+
+  it("finishes a resumed upload with the options sent on complete", async () => {
+    const { env, rows, seed } = uploadTestEnv();
+    seedUploads(seed);
+    const auth = await signInUploader(seed);
+    await call(env, "PUT", "/api/entry/multipart/part/u-mine/1", auth, "abcd");
+    await call(env, "PUT", "/api/entry/multipart/part/u-mine/2", auth, "ef");
+    const res = await complete(
+      env,
+      { uploadId: "u-mine", options: { note: "resumed", expirationDays: "0", maxDownloads: 3, alias: "fresh-name" } },
+      auth,
+    );
+    expect(res.status).toBe(200);
+    expect(rows("entries")).toMatchObject([
+      { id: "e-mine", note: "resumed", expiration_time: null, max_downloads: 3, alias: "fresh-name", password_hash: null },
+    ]);
+  });
+
+  it("keeps the options an upload started with when complete sends none", async () => {
+    const { env, rows, seed } = uploadTestEnv();
+    seedUploads(seed);
+    const auth = await signInUploader(seed);
+    await call(env, "PUT", "/api/entry/multipart/part/u-mine/1", auth, "abcd");
+    await call(env, "PUT", "/api/entry/multipart/part/u-mine/2", auth, "ef");
+    expect((await complete(env, { uploadId: "u-mine" }, auth)).status).toBe(200);
+    expect(rows("entries")).toMatchObject([{ id: "e-mine", note: "started" }]);
+  });
+});
+
+describe("upload size parsing", () => {
+  it("parses Content-Length style byte counts", () => {
+    expect(parseByteLength("0")).toBe(0);
+    expect(parseByteLength("104857600")).toBe(104857600);
+    expect(parseByteLength(null)).toBeNull();
+    expect(parseByteLength("-1")).toBeNull();
+    expect(parseByteLength("1e3")).toBeNull();
+    expect(parseByteLength("99999999999999999999")).toBeNull();
+  });
+
+  it("accepts zero as an unlimited upload limit", () => {
+    expect(parseUploadLimit(0)).toBe(0);
+    expect(parseUploadLimit("1048576")).toBe(1048576);
+    expect(parseUploadLimit("")).toBeNull();
+    expect(parseUploadLimit(-5)).toBeNull();
+    expect(parseUploadLimit(1.5)).toBeNull();
+  });
+});
+
+describe("form uploads on POST /api/entry", () => {
+  async function formRequest(fields: Record<string, string | File>, headers: Record<string, string> = {}) {
+    const fd = new FormData();
+    for (const [key, value] of Object.entries(fields)) fd.append(key, value);
+    const encoded = new Response(fd);
+    const body = await encoded.arrayBuffer();
+    return apiRequest("POST", "/api/entry", {
+      body,
+      headers: {
+        "Content-Type": encoded.headers.get("Content-Type") || "",
+        "Content-Length": String(body.byteLength),
+        ...headers,
+      },
+    });
+  }
+
+  it("streams an uploaded file into storage and flags the route as deprecated", async () => {
+    const { env, rows, objects } = uploadTestEnv();
+    const req = await formRequest({ file: new File(["hello world"], "hello.txt", { type: "text/plain" }), note: "hi" });
+    const res = await worker.fetch(req, env, workerCtx);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Deprecation")).toBe("true");
+    expect(res.headers.get("Link")).toContain("/api/entry/stream");
+    const data = (await res.json()) as { id: string; sha256: string };
+    expect(data.sha256).toBe(await sha256Hex(new TextEncoder().encode("hello world")));
+    expect(new TextDecoder().decode(objects.get(data.id))).toBe("hello world");
+    expect(rows("entries")).toEqual([expect.objectContaining({ id: data.id, filename: "hello.txt", size: 11, note: "hi" })]);
+  });
+
+  it("keeps pasted text on this route", async () => {
+    const { env, rows } = uploadTestEnv();
+    const res = await worker.fetch(await formRequest({ pastedText: "some text" }), env, workerCtx);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Deprecation")).toBeNull();
+    expect(rows("entries")).toEqual([expect.objectContaining({ content_type: "text/plain", size: 9 })]);
+  });
+
+  it("refuses bodies without a length or over the in-memory cap before parsing them", async () => {
+    const { env, rows } = uploadTestEnv();
+    const unsized = apiRequest("POST", "/api/entry", { body: "x", headers: { "Content-Type": "text/plain" } });
+    expect((await worker.fetch(unsized, env, workerCtx)).status).toBe(411);
+    const huge = await formRequest({ pastedText: "x" }, { "Content-Length": String(200 * 1024 * 1024) });
+    expect((await worker.fetch(huge, env, workerCtx)).status).toBe(413);
+    expect(rows("entries")).toEqual([]);
+  });
+
+  it("applies the configured upload limit to files", async () => {
+    const { env, rows } = uploadTestEnv({ settings: { max_upload_bytes: "4" } });
+    const req = await formRequest({ file: new File(["hello world"], "hello.txt") });
+    expect((await worker.fetch(req, env, workerCtx)).status).toBe(413);
+    expect(rows("entries")).toEqual([]);
+  });
+});
+
+describe("raw PUT uploads on /api/put/:filename", () => {
+  const DAY_MS = 24 * 3600 * 1000;
+
+  function put(path: string, body: string, headers: Record<string, string> = {}) {
+    return apiRequest("PUT", path, { body, headers: { "Content-Length": String(new TextEncoder().encode(body).byteLength), ...headers } });
+  }
+
+  function unsizedPut(path: string, chunks: string[]) {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+        controller.close();
+      },
+    });
+    return apiRequest("PUT", path, { body });
+  }
+
+  it("decodes the filename from the path and keeps only a safe base name", async () => {
+    const { env, rows } = uploadTestEnv();
+    for (const path of ["/api/put/my%20report%20%C3%A9.txt", "/api/put/dir/..%2Fevil%0A.txt", "/api/put/%20%0A"]) {
+      expect((await worker.fetch(put(path, "data"), env, workerCtx)).status).toBe(201);
+    }
+    const names = rows("entries").map((row) => String(row.filename));
+    expect(names.slice(0, 2)).toEqual(["my report é.txt", "evil.txt"]);
+    expect(names[2]).toMatch(/^upload-.+\.bin$/);
+    expect((await worker.fetch(put("/api/put/%E0%A4%A", "data"), env, workerCtx)).status).toBe(400);
+  });
+
+  it("reads the note and expiration from headers, falling back to the query string", async () => {
+    const { env, rows } = uploadTestEnv();
+    await worker.fetch(put("/api/put/a.txt?note=ignored", "a", { "X-Note": "build%20log", "X-Expiration-Days": "7" }), env, workerCtx);
+    await worker.fetch(put("/api/put/b.txt?note=from-query&expirationDays=1", "b"), env, workerCtx);
+    const [fromHeaders, fromQuery] = rows("entries");
+    expect(fromHeaders.note).toBe("build log");
+    expect(Date.parse(String(fromHeaders.expiration_time)) - Date.now()).toBeGreaterThan(7 * DAY_MS - 60_000);
+    expect(fromQuery.note).toBe("from-query");
+    expect(Date.parse(String(fromQuery.expiration_time)) - Date.now()).toBeLessThanOrEqual(DAY_MS);
+  });
+
+  it("rejects empty bodies", async () => {
+    const { env, rows } = uploadTestEnv();
+    expect((await worker.fetch(put("/api/put/empty.txt", ""), env, workerCtx)).status).toBe(400);
+    expect((await worker.fetch(unsizedPut("/api/put/empty.txt", []), env, workerCtx)).status).toBe(400);
+    expect(rows("entries")).toEqual([]);
+  });
+
+  it("rejects bodies over the configured limit, with or without a length", async () => {
+    const { env, rows } = uploadTestEnv({ settings: { max_upload_bytes: "8" } });
+    expect((await worker.fetch(put("/api/put/big.txt", "0123456789"), env, workerCtx)).status).toBe(413);
+    expect((await worker.fetch(unsizedPut("/api/put/big.txt", ["01234", "56789"]), env, workerCtx)).status).toBe(413);
+    expect(rows("entries")).toEqual([]);
+  });
+
+  it("stores bodies sent without a length through multipart", async () => {
+    const { env, rows, objects } = uploadTestEnv();
+    const res = await worker.fetch(unsizedPut("/api/put/log.txt", ["hello ", "world"]), env, workerCtx);
+    expect(res.status).toBe(201);
+    const [entry] = rows("entries");
+    expect(entry).toMatchObject({ filename: "log.txt", size: 11 });
+    expect(new TextDecoder().decode(objects.get(String(entry.id)))).toBe("hello world");
+  });
+
+  it("replies with a plain-text share URL unless JSON is accepted", async () => {
+    const { env, rows } = uploadTestEnv();
+    const text = await worker.fetch(put("/api/put/a.txt", "a"), env, workerCtx);
+    expect(text.status).toBe(201);
+    expect(text.headers.get("Content-Type")).toContain("text/plain");
+    expect(await text.text()).toBe(`https://share.example/-${rows("entries")[0].id}\n`);
+
+    const res = await worker.fetch(put("/api/put/b.txt", "b", { Accept: "application/json" }), env, workerCtx);
+    expect(res.status).toBe(201);
+    const data = (await res.json()) as { id: string; filename: string; sha256: string; url: string };
+    expect(data).toMatchObject({ filename: "b.txt", url: `https://share.example/-${data.id}` });
+    expect(data.sha256).toBe(await sha256Hex(new TextEncoder().encode("b")));
+  });
+});
+
+describe("tus uploads on /api/tus", () => {
+  const CHUNK = 8 * 1024 * 1024;
+  const call = (env: WorkerEnv, method: string, path: string, headers: Record<string, string> = {}, body?: BodyInit) =>
+    worker.fetch(apiRequest(method, path, { headers: { "Tus-Resumable": "1.0.0", ...headers }, body }), env, workerCtx);
+  const create = async (env: WorkerEnv, length: number) => {
+    const res = await call(env, "POST", "/api/tus", { "Upload-Length": String(length), "Upload-Metadata": "filename ZGF0YS5iaW4=" });
+    expect(res.status).toBe(201);
+    return { res, path: new URL(res.headers.get("Location") || "").pathname };
+  };
+  const patch = (env: WorkerEnv, path: string, offset: number, bytes: Uint8Array) =>
+    call(env, "PATCH", path, { "Content-Type": "application/offset+octet-stream", "Upload-Offset": String(offset) }, bytes);
+  const data = (size: number) => Uint8Array.from({ length: size }, (_, i) => (i * 7) % 251);
+
+  it("creates an upload and reports its offset", async () => {
+    const { env, rows } = uploadTestEnv();
+    const { res, path } = await create(env, 10);
+    expect(res.headers.get("Upload-Expires")).toBeTruthy();
+    expect(rows("multipart_uploads")).toMatchObject([{ filename: "data.bin", size: 10, tus_offset: 0 }]);
+
+    const head = await call(env, "HEAD", path);
+    expect(head.status).toBe(200);
+    expect(head.headers.get("Upload-Offset")).toBe("0");
+    expect(head.headers.get("Upload-Length")).toBe("10");
+    expect((await call(env, "POST", "/api/tus", { "Upload-Length": "10" })).status).toBe(201);
+    expect((await call(env, "POST", "/api/tus")).status).toBe(400);
+  });
+
+  it("stores an empty upload as an entry straight away", async () => {
+    const { env, rows, objects } = uploadTestEnv();
+    const { res, path } = await create(env, 0);
+    expect(res.headers.get("Upload-Offset")).toBe("0");
+    expect(rows("multipart_uploads")).toHaveLength(0);
+    expect(rows("entries")).toMatchObject([{ filename: "data.bin", size: 0 }]);
+    expect(objects.size).toBe(1);
+
+    const head = await call(env, "HEAD", path);
+    expect(head.status).toBe(200);
+    expect(head.headers.get("Upload-Offset")).toBe("0");
+  });
+
+  it("carries a partial part across PATCH requests and completes at Upload-Length", async () => {
+    const { env, rows, objects } = uploadTestEnv();
+    const bytes = data(CHUNK + 10);
+    const { path } = await create(env, bytes.byteLength);
+    const id = path.split("/").pop() || "";
+
+    const first = await patch(env, path, 0, bytes.subarray(0, CHUNK - 3));
+    expect(first.status).toBe(204);
+    expect(first.headers.get("Upload-Offset")).toBe(String(CHUNK - 3));
+    expect(rows("multipart_uploads")[0]).toMatchObject({ tus_offset: CHUNK - 3, tus_parts: 0, tus_tail_size: CHUNK - 3 });
+    expect([...objects.keys()]).toEqual(["tus-tail/u1"]);
+
+    const second = await patch(env, path, CHUNK - 3, bytes.subarray(CHUNK - 3));
+    expect(second.status).toBe(204);
+    expect(second.headers.get("Upload-Offset")).toBe(String(bytes.byteLength));
+    expect(rows("multipart_uploads")).toHaveLength(0);
+    expect(rows("entries")).toMatchObject([{ id, size: bytes.byteLength, sha256: await sha256Hex(bytes) }]);
+    expect([...objects.keys()]).toEqual([id]);
+    expect(Buffer.compare(Buffer.from(objects.get(id) ?? []), Buffer.from(bytes))).toBe(0);
+
+    const head = await call(env, "HEAD", path);
+    expect(head.status).toBe(200);
+    expect(head.headers.get("Upload-Offset")).toBe(String(bytes.byteLength));
+    expect(head.headers.get("Upload-Length")).toBe(String(bytes.byteLength));
+  });
+
+  it("refuses a PATCH at the wrong offset", async () => {
+    const { env, rows } = uploadTestEnv();
+    const { path } = await create(env, 10);
+    expect((await patch(env, path, 4, data(6))).status).toBe(409);
+    expect((await patch(env, path, 0, data(4))).status).toBe(204);
+    expect((await patch(env, path, 0, data(6))).status).toBe(409);
+    expect(rows("multipart_uploads")[0]).toMatchObject({ tus_offset: 4 });
+  });
+
+  it("terminates an upload with DELETE", async () => {
+    const { env, rows, objects, aborted } = uploadTestEnv();
+    const { path } = await create(env, 10);
+    await patch(env, path, 0, data(4));
+    expect((await call(env, "DELETE", path)).status).toBe(204);
+    expect(aborted).toEqual(["u1"]);
+    expect(rows("multipart_uploads")).toHaveLength(0);
+    expect(objects.size).toBe(0);
+    expect((await call(env, "HEAD", path)).status).toBe(404);
+    expect((await call(env, "DELETE", path)).status).toBe(404);
+  });
+
+  it("aborts an upload that is used after it expired", async () => {
+    const { env, rows, aborted } = uploadTestEnv();
+    const { path } = await create(env, 10);
+    rows("multipart_uploads")[0].expires_at = "2020-01-01T00:00:00.000Z";
+    expect((await patch(env, path, 0, data(4))).status).toBe(410);
+    expect(aborted).toEqual(["u1"]);
+    expect(rows("multipart_uploads")).toHaveLength(0);
+  });
+
+  it("cleans up expired uploads and their parked tails", async () => {
+    const { env, rows, objects, aborted } = uploadTestEnv();
+    await create(env, 10);
+    const { path } = await create(env, 10);
+    await patch(env, path, 0, data(4));
+    rows("multipart_uploads")[1].expires_at = "2020-01-01T00:00:00.000Z";
+    expect(await cleanupExpiredTusUploads(env, "2020-01-02T00:00:00.000Z")).toBe(1);
+    expect(aborted).toEqual(["u2"]);
+    expect(rows("multipart_uploads")).toMatchObject([{ upload_id: "u1" }]);
+    expect(objects.size).toBe(0);
+  });
+});
+
+describe("cleanupStaleMultipartUploads", () => {
+  it("aborts uploads started before the cutoff and deletes their rows", async () => {
+    const aborted: string[] = [];
+    const deleted: string[] = [];
+    const env = {
+      BUCKET: {
+        resumeMultipartUpload: (key: string, uploadId: string) => ({
+          abort: async () => {
+            aborted.push(`${key}:${uploadId}`);
+          },
+        }),
+        delete: async () => {},
+      },
+      DB: {
+        prepare: (sql: string) => ({
+          bind: (...args: unknown[]) => ({
+            all: async () => {
+              expect(sql).toContain("tus_offset IS NULL");
+              expect(args[0]).toBe("2026-02-10 00:00:00");
+              return { results: [{ upload_id: "u1", entry_id: "e1", tus_offset: null }] };
+            },
+            run: async () => {
+              if (sql.includes("DELETE FROM multipart_uploads")) deleted.push(String(args[0]));
+              return {};
+            },
+          }),
+        }),
+      },
+    } as unknown as Parameters<typeof cleanupStaleMultipartUploads>[0];
+
+    expect(await cleanupStaleMultipartUploads(env, "2026-02-11T00:00:00.000Z", 24)).toBe(1);
+    expect(aborted).toEqual(["e1:u1"]);
+    expect(deleted).toEqual(["u1"]);
+  });
+
+  it("parses the configured age in hours", () => {
+    expect(parseStaleUploadHours("48")).toBe(48);
+    expect(parseStaleUploadHours(0)).toBeNull();
+    expect(parseStaleUploadHours(721)).toBeNull();
+    expect(parseStaleUploadHours("")).toBeNull();
+  });
+});